@@ -1,26 +1,66 @@
 import React, { useState, useEffect, useRef } from "react";
 
+import { runOperation, sourceNotation, evaluationFor } from "./logic/operations";
+import { PREFIX_STAGES } from "./logic/algorithms";
+import { tokenize, tokenizePolish } from "./logic/lexer";
+import { parse } from "./logic/ast";
+import { parseBindings, formatBindings } from "./logic/bindings";
+import { serializeOperators, deserializeOperators } from "./logic/operators";
+import { BOOLEAN_OPERATORS, truthTable, TruthTableRow } from "./logic/boolean";
+import { evaluateJava, javaDisagreement } from "./logic/java";
+import { verifyConversions } from "./logic/verify";
+import { OPERATION_LABELS } from "./logic/exporters";
+import { encodePermalink, decodePermalink, Permalink, PermalinkRun } from "./logic/permalink";
+import { addRecord } from "./logic/history";
+import { generateExpression, seededRandom, DEFAULT_GENERATOR, GeneratorSettings } from "./logic/generator";
+import { makeQuestion, checkAnswer, scoreAnswer, EMPTY_SCORE, QuizQuestion, QuizVerdict } from "./logic/quiz";
+import ExpressionTree from "./components/ExpressionTree";
+import OperatorTablePanel from "./components/OperatorTablePanel";
+import TruthTable from "./components/TruthTable";
+import VerifyMatrix from "./components/VerifyMatrix";
+import QuizPanel from "./components/QuizPanel";
+import GeneratorPanel from "./components/GeneratorPanel";
+import TraceExport from "./components/TraceExport";
+import HistoryPanel from "./components/HistoryPanel";
+import BatchPanel from "./components/BatchPanel";
+import { codeListing, stepPhase, CodeLanguage, LANGUAGES } from "./snippets";
 import {
-  infixToPostfix,
-  infixToPrefix,
-  postfixToInfix,
-  postfixToPrefix,
-  prefixToInfix,
-  prefixToPostfix,
-  evaluatePostfix,
-  evaluatePrefix,
-} from "./logic/algorithms";
-import { HistoryRecord, AlgorithmResult } from "./types";
-
-type OperationType =
-  | "infixToPostfix"
-  | "infixToPrefix"
-  | "postfixToInfix"
-  | "postfixToPrefix"
-  | "prefixToInfix"
-  | "prefixToPostfix"
-  | "evaluatePostfix"
-  | "evaluatePrefix";
+  HistoryRecord,
+  AlgorithmResult,
+  ExpressionMode,
+  NumberSemantics,
+  OperationType,
+  OperatorTable,
+  ParenthesesMode,
+  QuizScore,
+  Step,
+  ViewTab,
+} from "./types";
+
+const StackWell: React.FC<{ items: (string | number)[]; theme: "light" | "dark"; width?: string }> = ({
+  items,
+  theme,
+  width = "w-40",
+}) => (
+  <div className={`relative h-64 ${width} mx-auto border-x-4 border-b-4 border-slate-200 dark:border-green-900/50 rounded-b-3xl bg-slate-50/50 dark:bg-black/20 flex flex-col-reverse p-3 gap-2 overflow-hidden shadow-inner dark:shadow-none`}>
+    {items.map((item, i) => (
+      <div
+        key={i}
+        className={`w-full py-2 rounded-lg text-center font-mono font-black border shadow-sm animate-in slide-in-from-top-4 duration-300 ${theme === "dark"
+          ? "bg-[#111] text-green-400 border-green-900/50"
+          : "bg-white text-indigo-600 border-indigo-100"
+          }`}
+      >
+        {item}
+      </div>
+    ))}
+    {items.length === 0 && (
+      <div className="h-full flex items-center justify-center opacity-20 text-[10px] font-black uppercase text-slate-400 dark:text-green-800">
+        Empty
+      </div>
+    )}
+  </div>
+);
 
 const formatText = (text: string) => {
   const cleanText = text
@@ -41,186 +81,44 @@ const formatText = (text: string) => {
   });
 };
 
-const javaImplementations: Record<OperationType, string> = {
-  infixToPostfix: `public static String solve(String exp) {
-    String result = "";
-    Stack<Character> stack = new Stack<>();
-    
-    for (int i = 0; i < exp.length(); i++) {
-        char c = exp.charAt(i);
-        
-        if (Character.isLetterOrDigit(c)) {
-            result += c;
-        } 
-        else if (c == '(') {
-            stack.push(c);
-        } 
-        else if (c == ')') {
-            while (!stack.isEmpty() && stack.peek() != '(') {
-                result += stack.pop();
-            }
-            stack.pop();
-        } 
-        else {
-            while (!stack.isEmpty() && precedence(c) <= precedence(stack.peek())) {
-                result += stack.pop();
-            }
-            stack.push(c);
-        }
-    }
-    
-    while (!stack.isEmpty()) {
-        result += stack.pop();
-    }
-    return result;
-}`,
-  infixToPrefix: `public static String solve(String exp) {
-    // Step 1: Reverse the expression
-    StringBuilder reversed = new StringBuilder(exp).reverse();
-    
-    // Step 2: Swap '(' with ')' and vice versa
-    for (int i = 0; i < reversed.length(); i++) {
-        if (reversed.charAt(i) == '(') {
-            reversed.setCharAt(i, ')');
-        } else if (reversed.charAt(i) == ')') {
-            reversed.setCharAt(i, '(');
-        }
-    }
-    
-    // Step 3: Get Postfix of the modified expression
-    String postfix = infixToPostfix(reversed.toString());
-    
-    // Step 4: Reverse the postfix expectation to get prefix
-    return new StringBuilder(postfix).reverse().toString();
-}`,
-  postfixToInfix: `public static String solve(String exp) {
-    Stack<String> stack = new Stack<>();
-    
-    for (int i = 0; i < exp.length(); i++) {
-        char c = exp.charAt(i);
-        
-        if (Character.isLetterOrDigit(c)) {
-            stack.push(c + "");
-        } else {
-            String op2 = stack.pop();
-            String op1 = stack.pop();
-            String temp = "(" + op1 + c + op2 + ")";
-            stack.push(temp);
-        }
-    }
-    return stack.pop();
-}`,
-  postfixToPrefix: `public static String solve(String exp) {
-    Stack<String> stack = new Stack<>();
-    
-    for (int i = 0; i < exp.length(); i++) {
-        char c = exp.charAt(i);
-        
-        if (Character.isLetterOrDigit(c)) {
-            stack.push(c + "");
-        } else {
-            String op2 = stack.pop();
-            String op1 = stack.pop();
-            String temp = c + op1 + op2;
-            stack.push(temp);
-        }
-    }
-    return stack.pop();
-}`,
-  prefixToInfix: `public static String solve(String exp) {
-    Stack<String> stack = new Stack<>();
-    
-    // Read from right to left
-    for (int i = exp.length() - 1; i >= 0; i--) {
-        char c = exp.charAt(i);
-        
-        if (Character.isLetterOrDigit(c)) {
-            stack.push(c + "");
-        } else {
-            String op1 = stack.pop();
-            String op2 = stack.pop();
-            String temp = "(" + op1 + c + op2 + ")";
-            stack.push(temp);
-        }
-    }
-    return stack.pop();
-}`,
-  prefixToPostfix: `public static String solve(String exp) {
-    Stack<String> stack = new Stack<>();
-    
-    // Read from right to left
-    for (int i = exp.length() - 1; i >= 0; i--) {
-        char c = exp.charAt(i);
-        
-        if (Character.isLetterOrDigit(c)) {
-            stack.push(c + "");
-        } else {
-            String op1 = stack.pop();
-            String op2 = stack.pop();
-            String temp = op1 + op2 + c;
-            stack.push(temp);
-        }
-    }
-    return stack.pop();
-}`,
-  evaluatePostfix: `public static int solve(String exp) {
-    Stack<Integer> stack = new Stack<>();
-    
-    for (int i = 0; i < exp.length(); i++) {
-        char c = exp.charAt(i);
-        
-        if (Character.isDigit(c)) {
-            stack.push(c - '0');
-        } else {
-            int val2 = stack.pop();
-            int val1 = stack.pop();
-            
-            switch(c) {
-                case '+': stack.push(val1 + val2); break;
-                case '-': stack.push(val1 - val2); break;
-                case '*': stack.push(val1 * val2); break;
-                case '/': stack.push(val1 / val2); break;
-            }
-        }
-    }
-    return stack.pop();
-}`,
-  evaluatePrefix: `public static int solve(String exp) {
-    Stack<Integer> stack = new Stack<>();
-    
-    // Read from right to left
-    for (int i = exp.length() - 1; i >= 0; i--) {
-        char c = exp.charAt(i);
-        
-        if (Character.isDigit(c)) {
-            stack.push(c - '0');
-        } else {
-            int val1 = stack.pop();
-            int val2 = stack.pop();
-            
-            switch(c) {
-                case '+': stack.push(val1 + val2); break;
-                case '-': stack.push(val1 - val2); break;
-                case '*': stack.push(val1 * val2); break;
-                case '/': stack.push(val1 / val2); break;
-            }
-        }
-    }
-    return stack.pop();
-}`
-};
-
 const App: React.FC = () => {
   const [operation, setOperation] = useState<OperationType>("infixToPostfix");
   const [inputExpr, setInputExpr] = useState("A+B*C");
   const [results, setResults] = useState<AlgorithmResult | null>(null);
+  // Everything `results` was run with; the controls may have moved on since
+  const [traced, setTraced] = useState<PermalinkRun | null>(null);
+  const [parensMode, setParensMode] = useState<ParenthesesMode>("minimal");
+  const [mode, setMode] = useState<ExpressionMode>("arithmetic");
+  const [semantics, setSemantics] = useState<NumberSemantics>("float");
+  const [showDecimals, setShowDecimals] = useState(false);
+  const [bindingsText, setBindingsText] = useState("A=3, B=4, C=-2");
   const [history, setHistory] = useState<HistoryRecord[]>([]);
+  const [operators, setOperators] = useState<OperatorTable>(() =>
+    deserializeOperators(localStorage.getItem("dsa_lab_operators"))
+  );
+
+  const [generator, setGenerator] = useState<GeneratorSettings>(DEFAULT_GENERATOR);
+  const [generatorIndex, setGeneratorIndex] = useState(0);
+  const [quiz, setQuiz] = useState<QuizQuestion | null>(null);
+  const [quizIndex, setQuizIndex] = useState(0);
+  const [quizVerdict, setQuizVerdict] = useState<QuizVerdict | null>(null);
+  const [batchRecords, setBatchRecords] = useState<HistoryRecord[]>([]);
+  const [batchIndex, setBatchIndex] = useState<number | null>(null);
+  const [quizScore, setQuizScore] = useState<QuizScore>(() => {
+    try {
+      return { ...EMPTY_SCORE, ...JSON.parse(localStorage.getItem("dsa_lab_quiz") ?? "{}") };
+    } catch {
+      return EMPTY_SCORE;
+    }
+  });
 
   // Visualization State
   const [currentStepIdx, setCurrentStepIdx] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [activeTab, setActiveTab] = useState<"visualizer" | "table" | "code">(
-    "visualizer"
+  const [activeTab, setActiveTab] = useState<ViewTab>("visualizer");
+  const [linkStatus, setLinkStatus] = useState<"copied" | "failed" | null>(null);
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>(
+    () => (localStorage.getItem("dsa_lab_code_language") as CodeLanguage) || "java"
   );
   const timerRef = useRef<number | null>(null);
 
@@ -246,6 +144,18 @@ const App: React.FC = () => {
     localStorage.setItem("dsa_lab_history", JSON.stringify(history));
   }, [history]);
 
+  useEffect(() => {
+    localStorage.setItem("dsa_lab_operators", serializeOperators(operators));
+  }, [operators]);
+
+  useEffect(() => {
+    localStorage.setItem("dsa_lab_quiz", JSON.stringify(quizScore));
+  }, [quizScore]);
+
+  useEffect(() => {
+    localStorage.setItem("dsa_lab_code_language", codeLanguage);
+  }, [codeLanguage]);
+
   // Theme Logic
   useEffect(() => {
     const root = window.document.documentElement;
@@ -279,64 +189,280 @@ const App: React.FC = () => {
     };
   }, [isPlaying, results]);
 
-  const handleProcess = async () => {
-    let data: AlgorithmResult;
-    switch (operation) {
-      case "infixToPostfix":
-        data = infixToPostfix(inputExpr);
-        break;
-      case "infixToPrefix":
-        data = infixToPrefix(inputExpr);
-        break;
-      case "postfixToInfix":
-        data = postfixToInfix(inputExpr);
-        break;
-      case "postfixToPrefix":
-        data = postfixToPrefix(inputExpr);
-        break;
-      case "prefixToInfix":
-        data = prefixToInfix(inputExpr);
-        break;
-      case "prefixToPostfix":
-        data = prefixToPostfix(inputExpr);
-        break;
-      case "evaluatePostfix":
-        data = evaluatePostfix(inputExpr);
-        break;
-      case "evaluatePrefix":
-        data = evaluatePrefix(inputExpr);
-        break;
-      default:
-        return;
-    }
+  const { bindings, error: bindingsError } = parseBindings(bindingsText);
+
+  // What Process would run on `input` with the controls as they are now
+  const currentRun = (input = inputExpr): PermalinkRun => ({
+    operation,
+    input,
+    mode,
+    parens: parensMode,
+    semantics,
+    decimals: showDecimals,
+    bindings: bindingsText,
+  });
 
+  const run = (source: PermalinkRun, table = operators) =>
+    runOperation(source.operation, source.input, {
+      parens: source.parens,
+      bindings: parseBindings(source.bindings).bindings,
+      operators: table,
+      mode: source.mode,
+      semantics: source.semantics,
+      decimals: source.decimals,
+    });
+
+  const showTrace = (data: AlgorithmResult, source: PermalinkRun) => {
     setResults(data);
+    setTraced(source);
+  };
+
+  // The URL hash always describes the trace on screen, so the address bar can be shared as is
+  const permalink = (source: PermalinkRun, step = currentStepIdx) =>
+    encodePermalink({ ...source, step, tab: activeTab });
+
+  // Scrubbing and switching tabs rewrite the current entry; only Process adds one
+  useEffect(() => {
+    if (!results || !traced) return;
+    const link = permalink(traced);
+    if (link !== window.location.hash) window.history.replaceState(null, "", link);
+  }, [results, traced, currentStepIdx, activeTab]);
+
+  // Opens a shared link, or the entry back/forward moved to
+  const openPermalink = (link: Permalink) => {
+    const { step, tab, ...source } = link;
+    const data = run(source);
+    setOperation(link.operation);
+    setInputExpr(link.input);
+    setMode(link.mode);
+    setParensMode(link.parens);
+    setSemantics(link.semantics);
+    setShowDecimals(link.decimals);
+    if (link.bindings) setBindingsText(link.bindings);
+    showTrace(data, source);
+    setIsPlaying(false);
+    setCurrentStepIdx(Math.min(step, Math.max(data.steps.length - 1, 0)));
+    setActiveTab(tab === "truth" && link.mode !== "boolean" ? "visualizer" : tab);
+  };
+
+  useEffect(() => {
+    const link = decodePermalink(window.location.hash);
+    if (link) openPermalink(link);
+  }, []);
+
+  useEffect(() => {
+    const onPopState = () => {
+      const link = decodePermalink(window.location.hash);
+      if (link) openPermalink(link);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [operators]);
+
+  // Non-secure origins and denied permissions have no clipboard; the address bar still holds the link
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkStatus("copied");
+    } catch {
+      setLinkStatus("failed");
+    }
+    window.setTimeout(() => setLinkStatus(null), 2500);
+  };
+
+  // Settings changes re-run the expression on screen so the trace follows live
+  const refresh = (overrides: Partial<PermalinkRun>, table = operators) => {
+    if (!results || !traced) return;
+    const source = { ...traced, ...overrides };
+    const data = run(source, table);
+    showTrace(data, source);
+    setIsPlaying(false);
+    setCurrentStepIdx(Math.max(data.steps.length - 1, 0));
+  };
+
+  const recordOf = (input: string, data: AlgorithmResult): HistoryRecord => ({
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    operation,
+    input,
+    bindings: operation.startsWith("evaluate") ? bindings : undefined,
+    mode,
+    semantics: operation.startsWith("evaluate") ? semantics : undefined,
+    result: data.result,
+    data,
+  });
+
+  const handleProcess = async (input = inputExpr) => {
+    if (operation.startsWith("evaluate") && bindingsError) return;
+
+    const source = currentRun(input);
+    const data = run(source);
+    showTrace(data, source);
     setCurrentStepIdx(0);
+    const link = permalink(source, 0);
+    if (link !== window.location.hash) window.history.pushState(null, "", link);
+
+    // A malformed expression is shown with its bad token, but never kept;
+    // a step that fails (x/0 in exact mode) is shown where it fails
+    if (data.error) {
+      setIsPlaying(false);
+      setCurrentStepIdx(Math.max(data.steps.length - 1, 0));
+      return;
+    }
     setIsPlaying(true);
+    setHistory((prev) => addRecord(prev, recordOf(input, data)));
+  };
 
-    const newRecord: HistoryRecord = {
-      id: crypto.randomUUID(),
-      timestamp: Date.now(),
-      operation,
-      input: inputExpr,
-      result: data.result,
-      data,
-    };
+  // Batch rows are full runs, so a click restores one like a history entry
+  const runBatch = (inputs: string[]) => {
+    if (isEvaluation && bindingsError) return;
+    setBatchRecords(inputs.map((input) => recordOf(input, run(currentRun(input)))));
+    setBatchIndex(null);
+  };
+
+  const openBatchRow = (index: number) => {
+    setBatchIndex(index);
+    restoreSession(batchRecords[index]);
+  };
+
+
+  // Generated expressions go through Process like typed ones (trace + history)
+  const generateAndProcess = () => {
+    // Evaluations can only use variables that already have values
+    const names = Object.keys(bindings);
+    const operands = isEvaluation && names.length === 0 ? "numbers" : generator.operands;
+    const random = generator.seed ? seededRandom(`${generator.seed}#${generatorIndex}`) : Math.random;
+    const expression = generateExpression(
+      sourceNotation(operation),
+      { ...generator, operands, names: isEvaluation ? names : undefined, random },
+      activeOperators
+    );
+    setGeneratorIndex(generatorIndex + 1);
+    setInputExpr(expression);
+    handleProcess(expression);
+  };
 
-    setHistory((prev) => [newRecord, ...prev].slice(0, 20));
+  // A new seed starts its sequence (and the quiz's) from the beginning
+  const changeGenerator = (next: GeneratorSettings) => {
+    if (next.seed !== generator.seed) {
+      setGeneratorIndex(0);
+      setQuizIndex(0);
+    }
+    setGenerator(next);
   };
 
+  const changeOperators = (table: OperatorTable) => {
+    setOperators(table);
+    refresh({}, table);
+  };
+
+  const changeSemantics = (next: NumberSemantics) => {
+    setSemantics(next);
+    if (isEvaluation) refresh({ semantics: next });
+  };
+
+  const toggleDecimals = () => {
+    setShowDecimals(!showDecimals);
+    if (isEvaluation) refresh({ decimals: !showDecimals });
+  };
+
+  // The truth table tab only exists in boolean mode
+  const changeMode = (next: ExpressionMode) => {
+    setMode(next);
+    if (next !== "boolean" && activeTab === "truth") setActiveTab("visualizer");
+  };
+
+  // Truth table row click: evaluate the input under that assignment and play it back
+  const replayTruthRow = (row: TruthTableRow) => {
+    const evaluation = evaluationFor(sourceNotation(operation));
+    const merged = { ...bindings, ...row.bindings };
+    const source: PermalinkRun = { ...currentRun(), operation: evaluation, mode: "boolean", bindings: formatBindings(merged) };
+    setOperation(evaluation);
+    setBindingsText(source.bindings);
+    showTrace(run(source), source);
+    setCurrentStepIdx(0);
+    setIsPlaying(true);
+    setActiveTab("visualizer");
+  };
+
+  // Practice: the trace stays hidden until the answer is checked
+  const newQuestion = () => {
+    const random = generator.seed ? seededRandom(`${generator.seed}#quiz${quizIndex}`) : Math.random;
+    const question = makeQuestion(random, operators);
+    setQuizIndex(quizIndex + 1);
+    setQuiz(question);
+    setQuizVerdict(null);
+    changeMode("arithmetic");
+    setOperation(question.operation);
+    setInputExpr(question.expression);
+    setResults(null);
+    setTraced(null);
+    setIsPlaying(false);
+  };
+
+  // A wrong answer opens the trace where it first goes astray
+  const submitQuizAnswer = (answer: string) => {
+    if (!quiz) return;
+    const source: PermalinkRun = { ...currentRun(quiz.expression), operation: quiz.operation, mode: "arithmetic" };
+    const data = run(source);
+    const verdict = checkAnswer(quiz, answer, data, operators);
+    setQuizVerdict(verdict);
+    setQuizScore((prev) => scoreAnswer(prev, verdict.correct));
+    showTrace(data, source);
+    setCurrentStepIdx(verdict.divergeStep ?? data.steps.length - 1);
+    setIsPlaying(false);
+    setActiveTab("visualizer");
+  };
 
   const restoreSession = (record: HistoryRecord) => {
-    setOperation(record.operation as OperationType);
+    const source: PermalinkRun = {
+      ...currentRun(record.input),
+      operation: record.operation as OperationType,
+      mode: record.mode ?? "arithmetic",
+      semantics: record.semantics ?? semantics,
+      bindings: record.bindings ? formatBindings(record.bindings) : bindingsText,
+    };
+    setOperation(source.operation);
     setInputExpr(record.input);
-    setResults(record.data);
+    setBindingsText(source.bindings);
+    changeMode(source.mode);
+    setSemantics(source.semantics);
+    showTrace(record.data, source);
     setCurrentStepIdx(record.data.steps.length - 1);
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
   const isEvaluation = operation.startsWith("evaluate");
   const currentStep = results?.steps[currentStepIdx];
+  const activeOperators = mode === "boolean" ? BOOLEAN_OPERATORS : operators;
+  // The run on screen; before the first one, what Process would run
+  const shown = traced ?? currentRun();
+  const shownEvaluation = shown.operation.startsWith("evaluate");
+  const shownOperators = shown.mode === "boolean" ? BOOLEAN_OPERATORS : operators;
+  const inputTokens = sourceNotation(shown.operation) === "infix"
+    ? tokenize(shown.input, { operators: shownOperators })
+    : tokenizePolish(shown.input, shownOperators);
+  const expressionTree = results && !results.error
+    ? parse(shown.input, sourceNotation(shown.operation), shownOperators).ast
+    : null;
+  // Students compare against the Java code, so say when it would print something else
+  const javaWarning = results && !results.error && shownEvaluation && shown.mode === "arithmetic" && shown.semantics !== "java"
+    ? javaDisagreement(
+      results.result,
+      evaluateJava(shown.input, sourceNotation(shown.operation), { bindings: parseBindings(shown.bindings).bindings, operators })
+    )
+    : null;
+  const listing = codeListing(codeLanguage, shown.operation);
+  const codePhase = currentStep
+    ? stepPhase(currentStep, shown.operation, inputTokens.find((t) => t.index === currentStep.tokenIndex))
+    : null;
+  const truth = activeTab === "truth" ? truthTable(inputExpr, sourceNotation(operation)) : null;
+  const activeTruthRow = truth
+    ? truth.rows.findIndex((row) => truth.variables.every((v) => bindings[v] === row.bindings[v]))
+    : -1;
+  const verification = activeTab === "verify"
+    ? verifyConversions(inputExpr, sourceNotation(operation), { operators, parens: parensMode, mode })
+    : null;
 
   return (
     <div
@@ -413,6 +539,22 @@ const App: React.FC = () => {
               <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700">
                 Laboratory Tools
               </label>
+              <div className="grid grid-cols-2 gap-2">
+                {(["arithmetic", "boolean"] as ExpressionMode[]).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => changeMode(m)}
+                    className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 transition ${mode === m
+                      ? theme === "dark"
+                        ? "border-green-500 text-green-400 bg-green-900/20"
+                        : "border-indigo-500 text-indigo-600 bg-indigo-50"
+                      : "border-slate-100 dark:border-green-900 text-slate-400 dark:text-green-800"
+                      }`}
+                  >
+                    {m === "arithmetic" ? "Arithmetic" : "Boolean"}
+                  </button>
+                ))}
+              </div>
               <select
                 value={operation}
                 onChange={(e) => setOperation(e.target.value as OperationType)}
@@ -429,24 +571,97 @@ const App: React.FC = () => {
                 <optgroup label="Mathematical Eval" className="dark:bg-black">
                   <option value="evaluatePostfix">Evaluate Postfix</option>
                   <option value="evaluatePrefix">Evaluate Prefix</option>
+                  <option value="evaluateInfix">Evaluate Infix (Two Stacks)</option>
                 </optgroup>
               </select>
 
+              {(operation === "postfixToInfix" || operation === "prefixToInfix") && (
+                <div className="grid grid-cols-2 gap-2">
+                  {(["minimal", "full"] as ParenthesesMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => {
+                        setParensMode(mode);
+                        refresh({ parens: mode });
+                      }}
+                      className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 transition ${parensMode === mode
+                        ? theme === "dark"
+                          ? "border-green-500 text-green-400 bg-green-900/20"
+                          : "border-indigo-500 text-indigo-600 bg-indigo-50"
+                        : "border-slate-100 dark:border-green-900 text-slate-400 dark:text-green-800"
+                        }`}
+                    >
+                      {mode === "minimal" ? "Minimal ( )" : "Full (( ))"}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="relative group">
                 <input
                   type="text"
                   value={inputExpr}
                   onChange={(e) => setInputExpr(e.target.value)}
                   className="w-full bg-indigo-50/30 dark:bg-green-900/10 border-2 border-indigo-100/50 dark:border-green-900/50 p-4 rounded-xl text-xl font-mono font-black focus:border-indigo-500 dark:focus:border-green-500 outline-none transition text-indigo-900 dark:text-green-300 pr-12 placeholder:text-slate-300 dark:placeholder:text-green-900"
-                  placeholder="e.g. A+B*C"
+                  placeholder={mode === "boolean" ? "e.g. A<B && !C" : "e.g. A+B*C"}
                 />
                 <div className="absolute right-4 top-1/2 -translate-y-1/2 text-indigo-200 dark:text-green-800">
                   <i className="fas fa-keyboard"></i>
                 </div>
               </div>
 
+              {isEvaluation && (
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700 flex items-center gap-2">
+                    <i className="fas fa-equals"></i> Variable Bindings
+                  </label>
+                  <input
+                    type="text"
+                    value={bindingsText}
+                    onChange={(e) => setBindingsText(e.target.value)}
+                    className={`w-full bg-slate-50 dark:bg-black border-2 p-3 rounded-xl font-mono font-bold text-sm outline-none transition dark:text-green-400 ${bindingsError
+                      ? "border-red-300 dark:border-red-900"
+                      : "border-slate-100 dark:border-green-900 focus:border-indigo-500 dark:focus:border-green-500"
+                      }`}
+                    placeholder={mode === "boolean" ? "e.g. A=3, B=4, C=true" : "e.g. A=3, B=4"}
+                  />
+                  {bindingsError && (
+                    <p className="text-[11px] font-bold text-red-500">{bindingsError}</p>
+                  )}
+                  {mode === "arithmetic" && (
+                    <div className="grid grid-cols-3 gap-2 pt-2">
+                      {(["float", "exact", "java"] as NumberSemantics[]).map((s) => (
+                        <button
+                          key={s}
+                          onClick={() => changeSemantics(s)}
+                          className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 transition ${semantics === s
+                            ? theme === "dark"
+                              ? "border-green-500 text-green-400 bg-green-900/20"
+                              : "border-indigo-500 text-indigo-600 bg-indigo-50"
+                            : "border-slate-100 dark:border-green-900 text-slate-400 dark:text-green-800"
+                            }`}
+                        >
+                          {s === "float" ? "Float" : s === "exact" ? "Exact a/b" : "Java int"}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {mode === "arithmetic" && semantics === "exact" && (
+                    <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500 dark:text-green-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={showDecimals}
+                        onChange={toggleDecimals}
+                        className="accent-indigo-600 dark:accent-green-500"
+                      />
+                      Show decimal expansion
+                    </label>
+                  )}
+                </div>
+              )}
+
               <button
-                onClick={handleProcess}
+                onClick={() => handleProcess()}
                 className={`w-full font-black py-4 rounded-xl shadow-lg hover:scale-[1.02] active:scale-[0.98] transition disabled:opacity-50 flex items-center justify-center gap-3 ${theme === "dark"
                   ? "bg-green-600 text-black hover:bg-green-500 shadow-green-900/30"
                   : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-indigo-100"
@@ -455,44 +670,51 @@ const App: React.FC = () => {
                 <i className="fas fa-play-circle"></i>
                 <span>Process Expression</span>
               </button>
-            </div>
-          </section>
 
-          <div className="bg-white dark:bg-[#111] rounded-3xl border border-slate-200 dark:border-green-900/30 overflow-hidden flex flex-col h-[400px] transition-colors">
-            <div className="p-4 border-b dark:border-green-900/20 bg-slate-50 dark:bg-[#0a0a0a] flex justify-between items-center transition-colors">
-              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700">
-                Recent Labs
-              </span>
-              <i className="fas fa-history text-slate-300 dark:text-green-900"></i>
-            </div>
-            <div className="flex-grow overflow-y-auto p-3 space-y-2 custom-scrollbar">
-              {history.map((record) => (
+              {results && !results.error && /To(Postfix|Prefix)$/.test(shown.operation) && (
                 <button
-                  key={record.id}
-                  onClick={() => restoreSession(record)}
-                  className="w-full text-left p-3 rounded-xl border border-transparent hover:border-indigo-100 dark:hover:border-green-800 hover:bg-indigo-50/50 dark:hover:bg-green-900/20 transition group"
+                  onClick={() => {
+                    setOperation(shown.operation.endsWith("Postfix") ? "evaluatePostfix" : "evaluatePrefix");
+                    setInputExpr(String(results.result));
+                  }}
+                  className="w-full py-3 rounded-xl border-2 border-dashed border-indigo-200 dark:border-green-900 text-[10px] font-black uppercase tracking-widest text-indigo-500 dark:text-green-600 hover:bg-indigo-50 dark:hover:bg-green-900/20 transition flex items-center justify-center gap-2"
                 >
-                  <div className="flex justify-between text-[8px] font-bold text-slate-400 dark:text-green-600 uppercase mb-1">
-                    <span>{record.operation.replace(/([A-Z])/g, " $1")}</span>
-                    <span>
-                      {new Date(record.timestamp).toLocaleTimeString([], {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                      })}
-                    </span>
-                  </div>
-                  <div className="text-xs font-mono font-bold text-slate-700 dark:text-green-300 truncate">
-                    {record.input}
-                  </div>
+                  <i className="fas fa-calculator"></i>
+                  Evaluate this result
                 </button>
-              ))}
-              {history.length === 0 && (
-                <div className="h-full flex items-center justify-center opacity-20 dark:opacity-50 text-slate-400 dark:text-green-800">
-                  <i className="fas fa-database text-4xl"></i>
-                </div>
               )}
             </div>
-          </div>
+          </section>
+
+          <section className="bg-white dark:bg-[#111] p-6 rounded-3xl shadow-sm dark:shadow-[0_0_20px_rgba(0,255,65,0.05)] border border-slate-200 dark:border-green-900/30 transition-colors">
+            <GeneratorPanel
+              settings={generator}
+              onChange={changeGenerator}
+              operators={activeOperators}
+              position={generatorIndex}
+              onGenerate={generateAndProcess}
+              theme={theme}
+            />
+          </section>
+
+          <section className="bg-white dark:bg-[#111] p-6 rounded-3xl shadow-sm dark:shadow-[0_0_20px_rgba(0,255,65,0.05)] border border-slate-200 dark:border-green-900/30 transition-colors">
+            <QuizPanel
+              question={quiz}
+              verdict={quizVerdict}
+              score={quizScore}
+              onNew={newQuestion}
+              onSubmit={submitQuizAnswer}
+              theme={theme}
+            />
+          </section>
+
+          {mode === "arithmetic" && (
+            <section className="bg-white dark:bg-[#111] p-6 rounded-3xl shadow-sm dark:shadow-[0_0_20px_rgba(0,255,65,0.05)] border border-slate-200 dark:border-green-900/30 transition-colors">
+              <OperatorTablePanel operators={operators} onChange={changeOperators} theme={theme} />
+            </section>
+          )}
+
+          <HistoryPanel history={history} onRestore={restoreSession} onChange={setHistory} theme={theme} />
         </aside>
 
         {/* Right: Main Visualization */}
@@ -500,10 +722,10 @@ const App: React.FC = () => {
           <div className="bg-white dark:bg-[#111] rounded-[2rem] shadow-xl dark:shadow-[0_0_30px_rgba(0,255,65,0.05)] border border-slate-200 dark:border-green-900/30 overflow-hidden flex flex-col transition-colors">
             {/* Tabs */}
             <div className="flex border-b dark:border-green-900/30">
-              {["visualizer", "table", "code"].map((tab) => (
+              {["visualizer", "tree", "table", ...(mode === "boolean" ? ["truth"] : []), "verify", "code"].map((tab) => (
                 <button
                   key={tab}
-                  onClick={() => setActiveTab(tab as any)}
+                  onClick={() => setActiveTab(tab as ViewTab)}
                   className={`px-8 py-4 text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === tab
                     ? theme === "dark"
                       ? "text-green-400 border-b-2 border-green-500 bg-green-900/10"
@@ -511,9 +733,25 @@ const App: React.FC = () => {
                     : "text-slate-400 dark:text-green-800 hover:text-slate-600 dark:hover:text-green-500 hover:bg-slate-50 dark:hover:bg-green-900/5"
                     }`}
                 >
-                  {tab}
+                  {tab === "truth" ? "truth table" : tab}
                 </button>
               ))}
+              {results && (
+                <button
+                  onClick={copyLink}
+                  title={
+                    linkStatus === "failed"
+                      ? "The clipboard is not available here; copy the address bar instead"
+                      : "Copy a link that opens this step of this trace"
+                  }
+                  className="ml-auto px-6 py-4 text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-800 hover:text-indigo-600 dark:hover:text-green-500 transition"
+                >
+                  <i
+                    className={`fas ${linkStatus === "copied" ? "fa-check" : linkStatus === "failed" ? "fa-triangle-exclamation text-red-500" : "fa-link"} mr-2`}
+                  ></i>
+                  {linkStatus === "copied" ? "Copied" : linkStatus === "failed" ? "Copy the address bar" : "Share"}
+                </button>
+              )}
             </div>
 
             <div
@@ -531,27 +769,50 @@ const App: React.FC = () => {
                           <span className="text-[10px] font-black text-slate-400 dark:text-green-700 uppercase tracking-widest">
                             Active Token
                           </span>
-                          <span className="text-[10px] font-black text-indigo-500 dark:text-green-400 uppercase tracking-widest">
-                            Step {currentStepIdx + 1} of {results.steps.length}
-                          </span>
+                          {results.error ? (
+                            <span className="text-[10px] font-black text-red-500 uppercase tracking-widest">
+                              {results.error.kind.replace(/-/g, " ")}
+                            </span>
+                          ) : (
+                            <span className="text-[10px] font-black text-indigo-500 dark:text-green-400 uppercase tracking-widest">
+                              Step {currentStepIdx + 1} of {results.steps.length}
+                            </span>
+                          )}
                         </div>
 
                         <div className="flex gap-2 mb-6 overflow-x-auto pb-2 custom-scrollbar">
-                          {inputExpr.split("").map((char, i) => (
+                          {inputTokens.map((tok) => (
                             <div
-                              key={i}
-                              className={`shrink-0 w-10 h-10 flex items-center justify-center rounded-lg text-lg font-mono font-black transition-all duration-300 border ${currentStep?.token === char
+                              key={tok.index}
+                              className={`shrink-0 min-w-10 h-10 px-2 flex items-center justify-center rounded-lg text-lg font-mono font-black transition-all duration-300 border ${results.error?.tokenIndex === tok.index
+                                ? "bg-red-600 text-white border-red-500 scale-110 shadow-lg animate-pulse"
+                                : currentStep?.tokenIndex === tok.index
                                 ? theme === "dark"
                                   ? "bg-green-600 text-black border-green-500 scale-110 shadow-lg shadow-green-900/50"
                                   : "bg-indigo-600 text-white scale-110 shadow-lg"
                                 : "bg-white dark:bg-[#151515] text-slate-300 dark:text-green-900 border-slate-100 dark:border-green-900/30"
                                 }`}
                             >
-                              {char}
+                              {tok.value}
                             </div>
                           ))}
                         </div>
 
+                        {results.error && (
+                          <div className="flex items-center gap-3 p-4 mb-4 rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 text-sm font-bold text-red-600 dark:text-red-400">
+                            <i className="fas fa-triangle-exclamation"></i>
+                            <span>{results.error.message}</span>
+                          </div>
+                        )}
+
+                        {javaWarning && (
+                          <div className="flex items-center gap-3 p-4 mb-4 rounded-xl border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-950/30 text-sm font-bold text-amber-700 dark:text-amber-400">
+                            <i className="fab fa-java"></i>
+                            <span>{javaWarning}</span>
+                          </div>
+                        )}
+
+                        {results.steps.length > 0 && (
                         <div className="flex items-center gap-4">
                           <button
                             onClick={() => setIsPlaying(!isPlaying)}
@@ -574,6 +835,7 @@ const App: React.FC = () => {
                               }`}
                           />
                         </div>
+                        )}
                       </div>
 
                       {/* Visual Stack Representation */}
@@ -583,24 +845,23 @@ const App: React.FC = () => {
                             <i className="fas fa-layer-group"></i> Stack Well (LIFO)
                           </h4>
 
-                          <div className="relative h-64 w-40 mx-auto border-x-4 border-b-4 border-slate-200 dark:border-green-900/50 rounded-b-3xl bg-slate-50/50 dark:bg-black/20 flex flex-col-reverse p-3 gap-2 overflow-hidden shadow-inner dark:shadow-none">
-                            {currentStep?.stack.map((item, i) => (
-                              <div
-                                key={i}
-                                className={`w-full py-2 rounded-lg text-center font-mono font-black border shadow-sm animate-in slide-in-from-top-4 duration-300 ${theme === "dark"
-                                  ? "bg-[#111] text-green-400 border-green-900/50"
-                                  : "bg-white text-indigo-600 border-indigo-100"
-                                  }`}
-                              >
-                                {item}
-                              </div>
-                            ))}
-                            {(!currentStep?.stack || currentStep.stack.length === 0) && (
-                              <div className="h-full flex items-center justify-center opacity-20 text-[10px] font-black uppercase text-slate-400 dark:text-green-800">
-                                Empty
-                              </div>
-                            )}
-                          </div>
+                          {currentStep && "operators" in currentStep ? (
+                            <div className="grid grid-cols-2 gap-4">
+                              {[
+                                { label: "Operands", items: currentStep.stack },
+                                { label: "Operators", items: currentStep.operators },
+                              ].map((well) => (
+                                <div key={well.label} className="space-y-2">
+                                  <StackWell items={well.items} theme={theme} width="w-full max-w-[10rem]" />
+                                  <div className="text-center text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700">
+                                    {well.label}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <StackWell items={currentStep?.stack ?? []} theme={theme} />
+                          )}
                         </div>
 
                         <div
@@ -622,12 +883,31 @@ const App: React.FC = () => {
                           >
                             Current Logic
                           </span>
+                          {currentStep && "stage" in currentStep && currentStep.stage && (
+                            <span className="self-start mb-3 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-white/10 text-emerald-300 dark:text-green-500">
+                              {PREFIX_STAGES[currentStep.stage]}
+                            </span>
+                          )}
                           <p
                             className={`text-xl font-medium leading-snug ${theme === "dark" ? "text-green-400 font-mono" : ""
                               }`}
                           >
                             {currentStep?.action}
                           </p>
+                          {currentStep && "explain" in currentStep && currentStep.explain && (
+                            <ul className={`mt-4 space-y-1 text-xs leading-snug ${theme === "dark" ? "text-green-600 font-mono" : "text-indigo-200"}`}>
+                              {currentStep.explain.popped.map((decision, i) => (
+                                <li key={i}>
+                                  <i className="fas fa-arrow-up mr-2 text-emerald-400"></i>
+                                  {shownEvaluation ? "Apply" : "Pop"} '{decision.operator}': {decision.reason}
+                                </li>
+                              ))}
+                              <li>
+                                <i className="fas fa-hand-paper mr-2 text-amber-300"></i>
+                                Stop: {currentStep.explain.stopped}
+                              </li>
+                            </ul>
+                          )}
 
                           <div
                             className={`mt-8 pt-8 border-t ${theme === "dark" ? "border-green-900/50" : "border-indigo-800/50"
@@ -640,8 +920,8 @@ const App: React.FC = () => {
                               Partial Result
                             </span>
                             <div className="font-mono text-2xl font-black text-emerald-400">
-                              {isEvaluation
-                                ? (currentStep as any)?.stack?.slice(-1)[0] || "0"
+                              {shownEvaluation
+                                ? (currentStep as any)?.stack?.slice(-1)[0] ?? "0"
                                 : (currentStep as any)?.output || "-"}
                             </div>
                           </div>
@@ -650,64 +930,167 @@ const App: React.FC = () => {
                     </div>
                   )}
 
+                  {activeTab === "tree" && (
+                    <div className="animate-in fade-in duration-300 space-y-6">
+                      <div className="flex justify-between items-center">
+                        <h4 className="text-[10px] font-black text-slate-400 dark:text-green-700 uppercase tracking-widest flex items-center gap-2">
+                          <i className="fas fa-sitemap"></i> Expression Tree
+                        </h4>
+                        <span className="text-[10px] font-black text-indigo-500 dark:text-green-400 uppercase tracking-widest">
+                          Step {currentStepIdx + 1} of {results.steps.length}
+                        </span>
+                      </div>
+                      {expressionTree ? (
+                        <>
+                          <div className="bg-slate-50 dark:bg-black/30 p-6 rounded-2xl border border-slate-100 dark:border-green-900/30">
+                            <ExpressionTree
+                              ast={expressionTree}
+                              steps={results.steps}
+                              currentStepIdx={currentStepIdx}
+                              buildMode={sourceNotation(shown.operation) === "infix" ? "emit" : "scan"}
+                              theme={theme}
+                            />
+                          </div>
+                          <p className="text-sm font-medium text-slate-500 dark:text-green-600">
+                            {currentStep?.action}
+                          </p>
+                        </>
+                      ) : (
+                        <div className="p-4 rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 text-sm font-bold text-red-600 dark:text-red-400">
+                          {results.error?.message ?? "Expression could not be parsed"}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {activeTab === "table" && (
-                    <div className="animate-in fade-in duration-300 max-h-[600px] overflow-y-auto custom-scrollbar">
-                      <table className="w-full text-left">
-                        <thead className="bg-slate-50 dark:bg-[#1a1a1a] sticky top-0">
-                          <tr>
-                            <th className="p-4 text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
-                              Token
-                            </th>
-                            <th className="p-4 text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
-                              Stack
-                            </th>
-                            <th className="p-4 text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
-                              Action
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className="divide-y divide-slate-100 dark:divide-green-900/20">
-                          {results.steps.map((s, idx) => (
-                            <tr
-                              key={idx}
-                              className={`hover:bg-slate-50 dark:hover:bg-green-900/10 transition ${idx === currentStepIdx
-                                ? theme === "dark"
-                                  ? "bg-green-900/20"
-                                  : "bg-indigo-50/50"
-                                : ""
-                                }`}
-                            >
-                              <td
-                                className={`p-4 font-mono font-black ${theme === "dark" ? "text-green-400" : "text-indigo-600"
+                    <div className="animate-in fade-in duration-300 space-y-4">
+                      {results.steps.length > 0 && (
+                        <TraceExport
+                          steps={results.steps}
+                          title={`${OPERATION_LABELS[shown.operation]}: ${shown.input}`}
+                          expression={shown.input}
+                          theme={theme}
+                        />
+                      )}
+                      <div className="max-h-[600px] overflow-y-auto custom-scrollbar">
+                        <table className="w-full text-left">
+                          <thead className="bg-slate-50 dark:bg-[#1a1a1a] sticky top-0">
+                            <tr>
+                              <th className="p-4 text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
+                                Token
+                              </th>
+                              <th className="p-4 text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
+                                Stack
+                              </th>
+                              <th className="p-4 text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
+                                Action
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 dark:divide-green-900/20">
+                            {results.steps.map((s, idx) => (
+                              <React.Fragment key={idx}>
+                              {"stage" in s && s.stage && s.stage !== (results.steps[idx - 1] as Step | undefined)?.stage && (
+                                <tr className="bg-slate-50/60 dark:bg-green-900/5">
+                                  <td colSpan={3} className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-indigo-500 dark:text-green-500">
+                                    {PREFIX_STAGES[s.stage]}
+                                  </td>
+                                </tr>
+                              )}
+                              <tr
+                                className={`hover:bg-slate-50 dark:hover:bg-green-900/10 transition ${idx === currentStepIdx
+                                  ? theme === "dark"
+                                    ? "bg-green-900/20"
+                                    : "bg-indigo-50/50"
+                                  : ""
                                   }`}
                               >
-                                {s.token}
-                              </td>
-                              <td className="p-4 font-mono text-xs dark:text-slate-300">
-                                {s.stack.join(" | ")}
-                              </td>
-                              <td className="p-4 text-xs font-medium text-slate-500 dark:text-slate-400">
-                                {s.action}
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
+                                <td
+                                  className={`p-4 font-mono font-black ${theme === "dark" ? "text-green-400" : "text-indigo-600"
+                                    }`}
+                                >
+                                  {s.token}
+                                </td>
+                                <td className="p-4 font-mono text-xs dark:text-slate-300">
+                                  {s.stack.join(" | ")}
+                                  {"operators" in s && (
+                                    <span className="text-slate-400 dark:text-green-700">
+                                      {"  ‖  "}
+                                      {s.operators.join(" ")}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="p-4 text-xs font-medium text-slate-500 dark:text-slate-400">
+                                  {s.action}
+                                </td>
+                              </tr>
+                              </React.Fragment>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
+                  {truth && (
+                    <div className="animate-in fade-in duration-300 max-h-[600px] overflow-y-auto custom-scrollbar">
+                      <TruthTable
+                        table={truth}
+                        activeRow={activeTruthRow >= 0 ? activeTruthRow : null}
+                        onSelect={replayTruthRow}
+                        theme={theme}
+                      />
+                    </div>
+                  )}
+
+                  {verification && (
+                    <div className="animate-in fade-in duration-300">
+                      <VerifyMatrix report={verification} operators={activeOperators} theme={theme} />
                     </div>
                   )}
 
                   {activeTab === "code" && (
-                    <div className="animate-in fade-in duration-300 bg-slate-900 dark:bg-[#050505] dark:border dark:border-green-900/30 rounded-2xl p-6 relative">
-                      <div className="absolute top-4 right-4 text-xs font-black text-slate-500 uppercase tracking-widest">
-                        Java Implementation
+                    <div className="animate-in fade-in duration-300 bg-slate-900 dark:bg-[#050505] dark:border dark:border-green-900/30 rounded-2xl p-6">
+                      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <div className="flex flex-wrap gap-2">
+                          {(Object.keys(LANGUAGES) as CodeLanguage[]).map((lang) => (
+                            <button
+                              key={lang}
+                              onClick={() => setCodeLanguage(lang)}
+                              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition ${codeLanguage === lang
+                                ? "border-emerald-400 text-emerald-400 dark:border-green-500 dark:text-green-400 bg-emerald-400/10"
+                                : "border-slate-700 dark:border-green-900 text-slate-500 dark:text-green-800 hover:text-slate-300"
+                                }`}
+                            >
+                              {LANGUAGES[lang]}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="text-xs font-black text-slate-500 uppercase tracking-widest">
+                          {LANGUAGES[codeLanguage]} Implementation
+                        </div>
                       </div>
+                      {/* Lines run by the current step are highlighted as the trace plays */}
                       <pre className="text-emerald-400 dark:text-green-400 font-mono text-sm md:text-base leading-relaxed overflow-x-auto">
-                        {`/** 
- * Educational Implementation of ${operation}
- * Time: O(n) | Space: O(n) 
- */
-${javaImplementations[operation]}`}
+                        {listing.lines.map((line, i) => (
+                          <div
+                            key={i}
+                            className={`px-2 -mx-2 rounded transition-colors ${codePhase && listing.phases[i].includes(codePhase)
+                              ? "bg-emerald-400/20 text-white dark:bg-green-500/20"
+                              : ""
+                              }`}
+                          >
+                            {line || " "}
+                          </div>
+                        ))}
                       </pre>
+                      {javaWarning && codeLanguage === "java" && (
+                        <p className="mt-4 pt-4 border-t border-slate-700 dark:border-green-900/30 text-sm font-bold text-amber-400">
+                          <i className="fab fa-java mr-2"></i>
+                          {javaWarning}. Switch evaluation to Java int to trace it.
+                        </p>
+                      )}
                     </div>
                   )}
                 </>
@@ -732,7 +1115,15 @@ ${javaImplementations[operation]}`}
             </div>
           </div>
 
-
+          <section className="bg-white dark:bg-[#111] p-6 rounded-3xl shadow-sm dark:shadow-[0_0_20px_rgba(0,255,65,0.05)] border border-slate-200 dark:border-green-900/30 transition-colors">
+            <BatchPanel
+              rows={batchRecords}
+              activeRow={batchIndex}
+              onRun={runBatch}
+              onSelect={openBatchRow}
+              theme={theme}
+            />
+          </section>
 
           <div
             className={`md:col-span-3 rounded-3xl p-8 text-white relative overflow-hidden ${theme === "dark" ? "bg-[#050505] border border-green-900/50" : "bg-slate-900"
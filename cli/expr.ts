@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+
+import { runOperation, evaluationFor, OperationOptions } from '../logic/operations';
+import { conversionOf, NOTATIONS } from '../logic/verify';
+import { parseBindings } from '../logic/bindings';
+import { stepTable } from './format';
+import { AlgorithmResult, ExpressionType, NumberSemantics, OperationType, ParenthesesMode } from '../types';
+
+const USAGE = `Usage:
+  expr convert --from <notation> --to <notation> [expression]
+  expr eval [--notation <notation>] [--bind "A=3, B=4"] [expression]
+
+Notations are infix, postfix and prefix. Without an expression, every
+non-empty line of stdin is processed in turn. Put -- before an expression
+that starts with a minus sign: expr eval -- -A^2
+
+Options:
+  --steps                 print the step trace as a table
+  --json                  one JSON object per expression
+  --parens minimal|full   brackets in infix output (default minimal)
+  --mode arithmetic|boolean
+  --semantics float|exact|java   number system for eval (default float)
+  -h, --help`;
+
+// Exit codes: 1 when an expression fails, 2 when the command line is wrong
+class UsageError extends Error {}
+
+const oneOf = <T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${name} must be one of ${allowed.join(', ')}`);
+  return value as T;
+};
+
+interface Job {
+  operation: OperationType;
+  options: OperationOptions;
+  steps: boolean;
+  json: boolean;
+}
+
+const parseCommand = (argv: string[]): { job: Job, expressions: string[] } => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      notation: { type: 'string' },
+      bind: { type: 'string' },
+      parens: { type: 'string' },
+      mode: { type: 'string' },
+      semantics: { type: 'string' },
+      steps: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...expressions] = positionals;
+  if (values.help) throw new UsageError('');
+
+  let operation: OperationType;
+  if (command === 'convert') {
+    if (!values.from || !values.to) throw new UsageError('convert needs --from and --to');
+    const from = oneOf<ExpressionType>('from', values.from, NOTATIONS, 'infix');
+    const to = oneOf<ExpressionType>('to', values.to, NOTATIONS, 'postfix');
+    if (from === to) throw new UsageError('--from and --to must differ');
+    operation = conversionOf(from, to);
+  } else if (command === 'eval') {
+    operation = evaluationFor(oneOf<ExpressionType>('notation', values.notation, NOTATIONS, 'infix'));
+  } else {
+    throw new UsageError(command ? `Unknown command '${command}'` : 'Missing command');
+  }
+
+  const { bindings, error } = parseBindings(values.bind ?? '');
+  if (error) throw new UsageError(`--bind: ${error}`);
+
+  return {
+    job: {
+      operation,
+      options: {
+        bindings,
+        parens: oneOf<ParenthesesMode>('parens', values.parens, ['minimal', 'full'], 'minimal'),
+        mode: oneOf('mode', values.mode, ['arithmetic', 'boolean'] as const, 'arithmetic'),
+        semantics: oneOf<NumberSemantics>('semantics', values.semantics, ['float', 'exact', 'java'], 'float'),
+      },
+      steps: values.steps!,
+      json: values.json!,
+    },
+    expressions: expressions.length ? [expressions.join(' ')] : [],
+  };
+};
+
+const report = (input: string, result: AlgorithmResult, job: Job): string => {
+  if (job.json) {
+    return JSON.stringify({
+      input,
+      operation: job.operation,
+      result: result.error ? null : result.result,
+      ...(result.error && { error: result.error }),
+      ...(job.steps && { steps: result.steps }),
+    });
+  }
+  const answer = result.error ? `error: ${result.error.message}` : String(result.result);
+  return job.steps && result.steps.length ? `${stepTable(result)}\n${answer}` : answer;
+};
+
+const readStdin = async (): Promise<string[]> => {
+  let text = '';
+  for await (const chunk of process.stdin) text += chunk;
+  return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+};
+
+const main = async () => {
+  let parsed: ReturnType<typeof parseCommand>;
+  try {
+    parsed = parseCommand(process.argv.slice(2));
+  } catch (e) {
+    if (!(e instanceof UsageError) && !(e instanceof TypeError)) throw e;
+    // parseArgs reports unknown options as TypeErrors; --help has no message
+    if (!e.message) return console.log(USAGE);
+    console.error(`expr: ${e.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const { job } = parsed;
+  const expressions = parsed.expressions.length ? parsed.expressions : await readStdin();
+  let failed = false;
+  expressions.forEach((input, i) => {
+    const result = runOperation(job.operation, input, job.options);
+    failed = failed || !!result.error;
+    // Traces are separated by a blank line; plain results stay one per line
+    if (job.steps && !job.json && i > 0) console.log('');
+    console.log(report(input, result, job));
+  });
+  if (failed) process.exitCode = 1;
+};
+
+main();
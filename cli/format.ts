@@ -0,0 +1,36 @@
+import { traceColumns, TraceStep } from '../logic/exporters';
+import { AlgorithmResult, PrefixStage, Step } from '../types';
+
+const PASSES: PrefixStage[] = ['reverse-input', 'scan', 'reverse-output'];
+
+/**
+ * Plain-text table: a header row, a rule, then one line per row, every
+ * column padded to its widest cell.
+ */
+export const asciiTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ').trimEnd();
+  const rule = widths.map(w => '-'.repeat(w)).join('-+-');
+  return [line(headers), rule, ...rows.map(line)].join('\n');
+};
+
+/**
+ * The step trace as a table, with the exporters' columns plus the pass
+ * number for multi-pass traces.
+ */
+export const stepTable = (result: AlgorithmResult): string => {
+  const steps = result.steps as TraceStep[];
+  const columns = traceColumns(steps);
+  const hasStage = steps.some(step => (step as Step).stage);
+  const pass = (step: TraceStep) => {
+    const { stage } = step as Step;
+    return stage ? String(PASSES.indexOf(stage) + 1) : '';
+  };
+  const headers = ['#', ...(hasStage ? ['Pass'] : []), ...columns.map(c => c.header)];
+  const rows = steps.map((step, i) => [
+    String(i + 1),
+    ...(hasStage ? [pass(step)] : []),
+    ...columns.map(c => c.cell(step)),
+  ]);
+  return asciiTable(headers, rows);
+};
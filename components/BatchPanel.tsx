@@ -0,0 +1,131 @@
+import React, { useRef, useState } from "react";
+
+import { batchToCsv, batchToJson, detectFormat, parseBatch, BatchRow } from "../logic/batch";
+import { download } from "./download";
+
+interface BatchPanelProps {
+  rows: BatchRow[];
+  activeRow: number | null;
+  onRun: (inputs: string[]) => void;
+  onSelect: (index: number) => void;
+  theme: "light" | "dark";
+}
+
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700";
+const headClass = "p-3 text-[10px] font-black uppercase text-slate-400 dark:text-green-700";
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ rows, activeRow, onRun, onSelect, theme }) => {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const submit = (source: string, fileName?: string) => {
+    const { inputs, error } = parseBatch(source, detectFormat(source, fileName));
+    setError(error ?? (inputs.length ? null : "No expressions found"));
+    if (error || !inputs.length) return;
+    setText(inputs.join("\n"));
+    onRun(inputs);
+  };
+
+  const upload = async (file?: File) => {
+    if (!file) return;
+    submit(await file.text(), file.name);
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const failed = rows.filter((row) => row.data.error).length;
+  const button = "px-4 py-2 rounded-xl border-2 border-slate-100 dark:border-green-900 font-black text-[10px] uppercase tracking-widest text-slate-500 dark:text-green-600 hover:border-indigo-200 dark:hover:border-green-700 transition disabled:opacity-40";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className={`${labelClass} flex items-center gap-2`}>
+          <i className="fas fa-layer-group"></i> Batch
+        </label>
+        {rows.length > 0 && (
+          <span className="text-[10px] font-black uppercase tracking-widest text-indigo-500 dark:text-green-500">
+            {rows.length - failed} ok · {failed} failed
+          </span>
+        )}
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={4}
+        className="w-full bg-slate-50 dark:bg-black border-2 border-slate-100 dark:border-green-900 p-3 rounded-xl font-mono font-bold text-sm outline-none focus:border-indigo-500 dark:focus:border-green-500 dark:text-green-400"
+        placeholder={"One expression per line, or a JSON array\nA+B*C\n(A+B)*C"}
+      />
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => submit(text)}
+          disabled={!text.trim()}
+          className={`px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40 ${theme === "dark" ? "bg-green-600 text-black" : "bg-indigo-600 text-white"
+            }`}
+        >
+          <i className="fas fa-play mr-2"></i>Run batch
+        </button>
+        <button onClick={() => fileRef.current?.click()} className={button} title="CSV with an 'input' column, or a JSON array">
+          <i className="fas fa-file-upload mr-2"></i>Import CSV / JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.json,.txt"
+          className="hidden"
+          onChange={(e) => upload(e.target.files?.[0])}
+        />
+        <button onClick={() => download("batch.csv", batchToCsv(rows), "text/csv")} disabled={!rows.length} className={button}>
+          <i className="fas fa-file-csv mr-2"></i>Export CSV
+        </button>
+        <button onClick={() => download("batch.json", batchToJson(rows), "application/json")} disabled={!rows.length} className={button}>
+          <i className="fas fa-file-code mr-2"></i>Export JSON
+        </button>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar rounded-xl border border-slate-100 dark:border-green-900/30">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 dark:bg-[#1a1a1a] sticky top-0">
+              <tr>
+                <th className={headClass}>#</th>
+                <th className={headClass}>Input</th>
+                <th className={headClass}>Result</th>
+                <th className={`${headClass} text-center`}>Steps</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-green-900/20">
+              {rows.map((row, idx) => (
+                <tr
+                  key={idx}
+                  onClick={() => onSelect(idx)}
+                  title="Open in the visualizer"
+                  className={`cursor-pointer hover:bg-slate-50 dark:hover:bg-green-900/10 transition ${idx === activeRow ? (theme === "dark" ? "bg-green-900/20" : "bg-indigo-50/50") : ""
+                    }`}
+                >
+                  <td className="p-3 font-mono text-xs text-slate-400 dark:text-green-800">{idx + 1}</td>
+                  <td className="p-3 font-mono font-bold text-sm text-slate-700 dark:text-green-300 break-all">{row.input}</td>
+                  {row.data.error ? (
+                    <td className="p-3 text-xs font-bold text-red-500">
+                      <i className="fas fa-triangle-exclamation mr-2"></i>
+                      {row.data.error.message}
+                    </td>
+                  ) : (
+                    <td className="p-3 font-mono font-black text-sm text-emerald-600 dark:text-green-400 break-all">
+                      {String(row.data.result)}
+                    </td>
+                  )}
+                  <td className="p-3 font-mono text-xs text-center text-slate-500 dark:text-green-600">{row.data.steps.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,150 @@
+import React from "react";
+
+import { childrenOf, labelOf } from "../logic/ast";
+import { ExprNode, Step, EvaluationStep } from "../types";
+
+interface PlacedNode {
+  node: ExprNode;
+  label: string;
+  x: number;
+  y: number;
+  children: PlacedNode[];
+}
+
+interface ExpressionTreeProps {
+  ast: ExprNode;
+  steps: (Step | EvaluationStep)[];
+  currentStepIdx: number;
+  // "scan": a node exists once its token is read (postfix/prefix stack build)
+  // "emit": operators only exist once Shunting-Yard moves them to the output
+  buildMode: "scan" | "emit";
+  theme: "light" | "dark";
+}
+
+const X_GAP = 56;
+const Y_GAP = 72;
+const RADIUS = 20;
+
+// Leaves take successive columns; a parent sits centered over its children
+const layout = (root: ExprNode): { root: PlacedNode; columns: number; depth: number } => {
+  let column = 0;
+  let depth = 0;
+  const place = (node: ExprNode, level: number): PlacedNode => {
+    depth = Math.max(depth, level);
+    const children = childrenOf(node).map((child) => place(child, level + 1));
+    const x = children.length
+      ? (children[0].x + children[children.length - 1].x) / 2
+      : column++;
+    return { node, label: labelOf(node), x, y: level, children };
+  };
+  return { root: place(root, 0), columns: column, depth };
+};
+
+const flatten = (placed: PlacedNode): PlacedNode[] =>
+  [placed, ...placed.children.flatMap(flatten)];
+
+const subtreeIndexes = (node: ExprNode, into: Set<number>) => {
+  if (node.tokenIndex !== undefined) into.add(node.tokenIndex);
+  childrenOf(node).forEach((child) => subtreeIndexes(child, into));
+};
+
+const ExpressionTree: React.FC<ExpressionTreeProps> = ({ ast, steps, currentStepIdx, buildMode, theme }) => {
+  const { root, columns, depth } = layout(ast);
+  const nodes = flatten(root);
+
+  // Which tokens have been read / emitted up to the current step
+  const scanned = new Set<number>();
+  const emitted = new Set<number>();
+  steps.slice(0, currentStepIdx + 1).forEach((s) => {
+    // Reversing the input of infixToPrefix reads tokens without building anything
+    if ("stage" in s && s.stage === "reverse-input") return;
+    if (s.tokenIndex !== undefined) scanned.add(s.tokenIndex);
+    ("emitted" in s ? s.emitted ?? [] : []).forEach((i) => emitted.add(i));
+  });
+  const isBuilt = ({ node }: PlacedNode) => {
+    if (node.tokenIndex === undefined) return true;
+    const isLeaf = childrenOf(node).length === 0;
+    return buildMode === "scan" || isLeaf ? scanned.has(node.tokenIndex) : emitted.has(node.tokenIndex);
+  };
+
+  // The subtree the current step talks about
+  const current = steps[currentStepIdx];
+  const focusRoots = current && "emitted" in current && current.emitted?.length
+    ? current.emitted
+    : current?.tokenIndex !== undefined ? [current.tokenIndex] : [];
+  const focused = new Set<number>();
+  nodes
+    .filter(({ node }) => node.tokenIndex !== undefined && focusRoots.includes(node.tokenIndex))
+    .forEach(({ node }) => subtreeIndexes(node, focused));
+
+  const width = Math.max(columns, 1) * X_GAP;
+  const height = (depth + 1) * Y_GAP;
+  const px = (p: PlacedNode) => p.x * X_GAP + X_GAP / 2;
+  const py = (p: PlacedNode) => p.y * Y_GAP + Y_GAP / 2;
+
+  const dark = theme === "dark";
+  const edgeColor = dark ? "#14532d" : "#c7d2fe";
+  const nodeFill = dark ? "#111" : "#ffffff";
+  const nodeStroke = dark ? "#166534" : "#a5b4fc";
+  const focusFill = dark ? "#16a34a" : "#4f46e5";
+  const textColor = dark ? "#4ade80" : "#4338ca";
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full max-h-[480px]"
+      style={{ minHeight: Math.min(height, 480) }}
+    >
+      {nodes.flatMap((parent) =>
+        parent.children.map((child, i) => (
+          <line
+            key={`${parent.node.tokenIndex}-${i}`}
+            x1={px(parent)}
+            y1={py(parent)}
+            x2={px(child)}
+            y2={py(child)}
+            stroke={edgeColor}
+            strokeWidth={2}
+            style={{ opacity: isBuilt(parent) && isBuilt(child) ? 1 : 0, transition: "opacity 300ms" }}
+          />
+        ))
+      )}
+      {nodes.map((p) => {
+        const built = isBuilt(p);
+        const isFocused = p.node.tokenIndex !== undefined && focused.has(p.node.tokenIndex);
+        return (
+          <g
+            key={p.node.tokenIndex ?? p.label}
+            style={{
+              opacity: built ? 1 : 0.12,
+              transition: "opacity 300ms",
+            }}
+          >
+            <circle
+              cx={px(p)}
+              cy={py(p)}
+              r={RADIUS}
+              fill={isFocused ? focusFill : nodeFill}
+              stroke={isFocused ? focusFill : nodeStroke}
+              strokeWidth={2}
+              strokeDasharray={built ? undefined : "4 3"}
+            />
+            <text
+              x={px(p)}
+              y={py(p)}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="font-mono font-black"
+              fontSize={p.label.length > 3 ? 10 : 14}
+              fill={isFocused ? (dark ? "#000" : "#fff") : textColor}
+            >
+              {p.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ExpressionTree;
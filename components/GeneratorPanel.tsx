@@ -0,0 +1,118 @@
+import React from "react";
+
+import { GeneratorSettings, MAX_GENERATOR_DEPTH, OperandKind } from "../logic/generator";
+import { OperatorDef, OperatorTable } from "../types";
+
+interface GeneratorPanelProps {
+  settings: GeneratorSettings;
+  onChange: (settings: GeneratorSettings) => void;
+  operators: OperatorTable;
+  position: number; // how many expressions this seed has produced so far
+  onGenerate: () => void;
+  theme: "light" | "dark";
+}
+
+const labelClass = "text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-green-800";
+
+const GeneratorPanel: React.FC<GeneratorPanelProps> = ({ settings, onChange, operators, position, onGenerate, theme }) => {
+  const set = (changes: Partial<GeneratorSettings>) => onChange({ ...settings, ...changes });
+  const toggleOperator = (symbol: string) =>
+    set({
+      operators: settings.operators.includes(symbol)
+        ? settings.operators.filter((op) => op !== symbol)
+        : [...settings.operators, symbol],
+    });
+
+  const binary = Object.values<OperatorDef>(operators)
+    .filter((def) => def.arity === 2 && def.symbol !== "^")
+    .sort((a, b) => a.precedence - b.precedence);
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded-lg border-2 text-[10px] font-mono font-black transition ${active
+      ? theme === "dark"
+        ? "border-green-500 text-green-400 bg-green-900/20"
+        : "border-indigo-500 text-indigo-600 bg-indigo-50"
+      : "border-slate-100 dark:border-green-900 text-slate-400 dark:text-green-800"
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700 flex items-center gap-2">
+        <i className="fas fa-dice"></i> Expression Generator
+      </label>
+
+      <div className="space-y-1">
+        <span className={labelClass}>Operators</span>
+        <div className="flex flex-wrap gap-1">
+          {binary.map((def) => (
+            <button key={def.symbol} onClick={() => toggleOperator(def.symbol)} className={chip(settings.operators.includes(def.symbol))}>
+              {def.symbol}
+            </button>
+          ))}
+          <button
+            onClick={() => set({ power: !settings.power })}
+            className={chip(settings.power)}
+            title="Right-associative power, e.g. A^B^C = A^(B^C)"
+          >
+            ^
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className={labelClass}>Depth {settings.depth}</span>
+          <input
+            type="range"
+            min="1"
+            max={MAX_GENERATOR_DEPTH}
+            value={settings.depth}
+            onChange={(e) => set({ depth: Number(e.target.value) })}
+            className="w-full accent-indigo-600 dark:accent-green-500"
+          />
+        </label>
+        <label className="space-y-1" title="Chance of redundant brackets around an infix subexpression">
+          <span className={labelClass}>Brackets {Math.round(settings.parenDensity * 100)}%</span>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.1"
+            value={settings.parenDensity}
+            onChange={(e) => set({ parenDensity: Number(e.target.value) })}
+            className="w-full accent-indigo-600 dark:accent-green-500"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(["variables", "numbers"] as OperandKind[]).map((kind) => (
+          <button key={kind} onClick={() => set({ operands: kind })} className={chip(settings.operands === kind)}>
+            {kind === "variables" ? "A B C" : "1 2 3"}
+          </button>
+        ))}
+      </div>
+
+      <label className="block space-y-1">
+        <span className={labelClass}>
+          Seed {settings.seed && `· expression #${position + 1} next`}
+        </span>
+        <input
+          value={settings.seed}
+          onChange={(e) => set({ seed: e.target.value })}
+          className="w-full bg-slate-50 dark:bg-black border-2 border-slate-100 dark:border-green-900 p-2 rounded-lg font-mono font-bold text-xs outline-none focus:border-indigo-500 dark:focus:border-green-500 dark:text-green-400"
+          placeholder="e.g. class-7 (blank for random)"
+        />
+      </label>
+
+      <button
+        onClick={onGenerate}
+        className="w-full py-3 rounded-xl border-2 border-dashed border-indigo-200 dark:border-green-900 text-[10px] font-black uppercase tracking-widest text-indigo-500 dark:text-green-600 hover:bg-indigo-50 dark:hover:bg-green-900/20 transition flex items-center justify-center gap-2"
+      >
+        <i className="fas fa-random"></i>
+        Generate &amp; Process
+      </button>
+    </div>
+  );
+};
+
+export default GeneratorPanel;
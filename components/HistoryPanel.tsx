@@ -0,0 +1,192 @@
+import React, { useRef, useState } from "react";
+
+import { OPERATION_LABELS } from "../logic/exporters";
+import {
+  exportHistory,
+  filterHistory,
+  importHistory,
+  mergeHistory,
+  removeRecord,
+  updateRecord,
+} from "../logic/history";
+import { download } from "./download";
+import { HistoryRecord, OperationType } from "../types";
+
+interface HistoryPanelProps {
+  history: HistoryRecord[];
+  onRestore: (record: HistoryRecord) => void;
+  onChange: (history: HistoryRecord[]) => void;
+  theme: "light" | "dark";
+}
+
+const fieldClass = "bg-white dark:bg-black border border-slate-200 dark:border-green-900 px-2 py-1 rounded-lg text-[11px] font-bold outline-none focus:border-indigo-500 dark:focus:border-green-500 dark:text-green-400";
+const iconButton = "w-6 h-6 rounded-md flex items-center justify-center text-[10px] text-slate-300 dark:text-green-900 hover:text-indigo-600 dark:hover:text-green-400 transition";
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onRestore, onChange, theme }) => {
+  const [query, setQuery] = useState("");
+  const [operation, setOperation] = useState<OperationType | "all">("all");
+  const [editing, setEditing] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const visible = filterHistory(history, query, operation);
+
+  const startRename = (record: HistoryRecord) => {
+    setEditing(record.id);
+    setLabel(record.label ?? "");
+  };
+
+  const saveRename = () => {
+    if (!editing) return;
+    onChange(updateRecord(history, editing, { label: label.trim() || undefined }));
+    setEditing(null);
+  };
+
+  const upload = async (file?: File) => {
+    if (!file) return;
+    const { records, error } = importHistory(await file.text());
+    if (fileRef.current) fileRef.current.value = "";
+    if (error) return setNotice(error);
+    const merged = mergeHistory(history, records);
+    const kept = records.filter((record) => merged.some((m) => m.id === record.id)).length;
+    onChange(merged);
+    setNotice(
+      kept === records.length
+        ? `Imported ${records.length} entries`
+        : `Imported ${kept} of ${records.length} entries (unpinned history keeps the newest)`
+    );
+  };
+
+  // Stop row clicks from also restoring the entry
+  const act = (e: React.MouseEvent, action: () => void) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#111] rounded-3xl border border-slate-200 dark:border-green-900/30 overflow-hidden flex flex-col h-[480px] transition-colors">
+      <div className="p-4 border-b dark:border-green-900/20 bg-slate-50 dark:bg-[#0a0a0a] space-y-3 transition-colors">
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700">
+            Recent Labs
+          </span>
+          <div className="flex items-center gap-1">
+            <button onClick={() => fileRef.current?.click()} className={iconButton} title="Import history (JSON)">
+              <i className="fas fa-file-import"></i>
+            </button>
+            <button
+              onClick={() => download("expression-lab-history.json", exportHistory(history), "application/json")}
+              disabled={!history.length}
+              className={`${iconButton} disabled:opacity-40`}
+              title="Export history (JSON)"
+            >
+              <i className="fas fa-file-export"></i>
+            </button>
+            <input ref={fileRef} type="file" accept=".json" className="hidden" onChange={(e) => upload(e.target.files?.[0])} />
+            <i className="fas fa-history text-slate-300 dark:text-green-900 ml-1"></i>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`${fieldClass} flex-grow min-w-0`}
+            placeholder="Search"
+          />
+          <select
+            value={operation}
+            onChange={(e) => setOperation(e.target.value as OperationType | "all")}
+            className={`${fieldClass} w-28`}
+          >
+            <option value="all">All</option>
+            {Object.entries(OPERATION_LABELS).map(([value, name]) => (
+              <option key={value} value={value}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {notice && (
+          <p className="text-[10px] font-bold text-slate-500 dark:text-green-600 flex justify-between gap-2">
+            <span>{notice}</span>
+            <button onClick={() => setNotice(null)} className="text-slate-300 dark:text-green-900">
+              <i className="fas fa-times"></i>
+            </button>
+          </p>
+        )}
+      </div>
+      <div className="flex-grow overflow-y-auto p-3 space-y-2 custom-scrollbar">
+        {visible.map((record) => (
+          <div
+            key={record.id}
+            onClick={() => editing !== record.id && onRestore(record)}
+            className={`w-full text-left p-3 rounded-xl border hover:border-indigo-100 dark:hover:border-green-800 hover:bg-indigo-50/50 dark:hover:bg-green-900/20 transition group cursor-pointer ${record.pinned
+              ? theme === "dark"
+                ? "border-green-900/60"
+                : "border-indigo-100"
+              : "border-transparent"
+              }`}
+          >
+            <div className="flex justify-between items-center text-[8px] font-bold text-slate-400 dark:text-green-600 uppercase mb-1">
+              <span>{record.operation.replace(/([A-Z])/g, " $1")}</span>
+              <span className="flex items-center gap-1">
+                <span className="opacity-0 group-hover:opacity-100 flex transition">
+                  <button onClick={(e) => act(e, () => startRename(record))} className={iconButton} title="Rename">
+                    <i className="fas fa-pen"></i>
+                  </button>
+                  <button onClick={(e) => act(e, () => onChange(removeRecord(history, record.id)))} className={iconButton} title="Delete">
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </span>
+                <button
+                  onClick={(e) => act(e, () => onChange(updateRecord(history, record.id, { pinned: !record.pinned })))}
+                  className={`${iconButton} ${record.pinned ? "!text-indigo-500 dark:!text-green-500" : ""}`}
+                  title={record.pinned ? "Unpin" : "Pin (never removed from history)"}
+                >
+                  <i className="fas fa-thumbtack"></i>
+                </button>
+                {new Date(record.timestamp).toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+            </div>
+            {editing === record.id ? (
+              <input
+                autoFocus
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveRename();
+                  if (e.key === "Escape") setEditing(null);
+                }}
+                onBlur={saveRename}
+                className={`${fieldClass} w-full mb-1`}
+                placeholder="Label (blank to remove)"
+              />
+            ) : (
+              record.label && (
+                <div className="text-xs font-black text-indigo-600 dark:text-green-400 truncate">{record.label}</div>
+              )
+            )}
+            <div className="text-xs font-mono font-bold text-slate-700 dark:text-green-300 truncate">
+              {record.input}
+            </div>
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <div className="h-full flex items-center justify-center opacity-20 dark:opacity-50 text-slate-400 dark:text-green-800">
+            {history.length ? (
+              <span className="text-[10px] font-black uppercase tracking-widest">No matches</span>
+            ) : (
+              <i className="fas fa-database text-4xl"></i>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+
+import { DEFAULT_OPERATORS } from "../logic/constants";
+import { OPERATOR_PRESETS, checkOperatorSymbol, compileFormula } from "../logic/operators";
+import { OperatorDef, OperatorTable } from "../types";
+
+interface OperatorTablePanelProps {
+  operators: OperatorTable;
+  onChange: (operators: OperatorTable) => void;
+  theme: "light" | "dark";
+}
+
+const fieldClass =
+  "bg-slate-50 dark:bg-black border-2 border-slate-100 dark:border-green-900 p-2 rounded-lg font-mono font-bold text-xs outline-none focus:border-indigo-500 dark:focus:border-green-500 dark:text-green-400";
+
+const OperatorTablePanel: React.FC<OperatorTablePanelProps> = ({ operators, onChange, theme }) => {
+  const [symbol, setSymbol] = useState("");
+  const [precedence, setPrecedence] = useState(2);
+  const [associativity, setAssociativity] = useState<"L" | "R">("L");
+  const [arity, setArity] = useState<1 | 2>(2);
+  const [formula, setFormula] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (key: string, changes: Partial<OperatorDef>) =>
+    onChange({ ...operators, [key]: { ...operators[key], ...changes } });
+
+  const remove = (key: string) => {
+    const { [key]: _, ...rest } = operators;
+    onChange(rest);
+  };
+
+  const add = () => {
+    const symbolError = checkOperatorSymbol(symbol, operators);
+    if (symbolError) return setError(symbolError);
+    const { evaluate, error: formulaError } = compileFormula(formula, arity);
+    if (!evaluate) return setError(formulaError ?? "Formula is invalid");
+    onChange({ ...operators, [symbol]: { symbol, precedence, associativity, arity, formula, evaluate } });
+    setSymbol("");
+    setFormula("");
+    setError(null);
+  };
+
+  const rows = Object.values<OperatorDef>(operators).sort((a, b) => b.precedence - a.precedence);
+  const presets = Object.values(OPERATOR_PRESETS).filter((def) => !operators[def.symbol]);
+  const accent = theme === "dark" ? "text-green-400 border-green-500" : "text-indigo-600 border-indigo-500";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700 flex items-center gap-2">
+          <i className="fas fa-sliders-h"></i> Operator Registry
+        </label>
+        <button
+          onClick={() => onChange(DEFAULT_OPERATORS)}
+          className="text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-green-800 hover:text-indigo-500 dark:hover:text-green-500 transition"
+        >
+          Reset
+        </button>
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-[9px] uppercase tracking-widest text-slate-400 dark:text-green-800">
+            <th className="text-left pb-2">Op</th>
+            <th className="text-left pb-2">Prec</th>
+            <th className="text-left pb-2">Assoc</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((def) => (
+            <tr key={def.symbol} className="border-t border-slate-100 dark:border-green-900/30">
+              <td className="py-1 font-black text-slate-700 dark:text-green-300" title={def.formula}>
+                {def.symbol}
+                {def.infixSymbol && <span className="text-slate-400 dark:text-green-800"> ({def.infixSymbol})</span>}
+                {def.arity === 1 && <span className="text-[9px] text-slate-400 dark:text-green-800"> unary</span>}
+              </td>
+              <td className="py-1">
+                <input
+                  type="number"
+                  value={def.precedence}
+                  onChange={(e) => update(def.symbol, { precedence: Number(e.target.value) })}
+                  className={`${fieldClass} w-14 p-1`}
+                />
+              </td>
+              <td className="py-1">
+                <button
+                  onClick={() => update(def.symbol, { associativity: def.associativity === "L" ? "R" : "L" })}
+                  className={`w-8 py-1 rounded-lg border-2 font-black ${accent}`}
+                >
+                  {def.associativity}
+                </button>
+              </td>
+              <td className="py-1 text-right">
+                {!DEFAULT_OPERATORS[def.symbol] && (
+                  <button
+                    onClick={() => remove(def.symbol)}
+                    className="text-slate-300 dark:text-green-900 hover:text-red-500 transition"
+                    title="Remove operator"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {presets.map((def) => (
+            <button
+              key={def.symbol}
+              onClick={() => onChange({ ...operators, [def.symbol]: def })}
+              className="px-2 py-1 rounded-lg border-2 border-dashed border-slate-200 dark:border-green-900 text-[10px] font-mono font-black text-slate-500 dark:text-green-600 hover:bg-indigo-50 dark:hover:bg-green-900/20 transition"
+            >
+              + {def.symbol}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        <input
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value.trim())}
+          className={fieldClass}
+          placeholder="sym"
+        />
+        <input
+          type="number"
+          value={precedence}
+          onChange={(e) => setPrecedence(Number(e.target.value))}
+          className={fieldClass}
+          title="Precedence"
+        />
+        <button
+          onClick={() => setAssociativity(associativity === "L" ? "R" : "L")}
+          className={`rounded-lg border-2 font-black text-xs ${accent}`}
+          title="Associativity"
+        >
+          {associativity}
+        </button>
+        <select
+          value={arity}
+          onChange={(e) => setArity(Number(e.target.value) as 1 | 2)}
+          className={fieldClass}
+          title="Arity"
+        >
+          <option value={2}>a,b</option>
+          <option value={1}>a</option>
+        </select>
+        <input
+          value={formula}
+          onChange={(e) => setFormula(e.target.value)}
+          className={`${fieldClass} col-span-3`}
+          placeholder={arity === 2 ? "e.g. a*a+b" : "e.g. a*2"}
+        />
+        <button
+          onClick={add}
+          className={`rounded-lg font-black text-xs ${theme === "dark" ? "bg-green-600 text-black" : "bg-indigo-600 text-white"}`}
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="text-[11px] font-bold text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default OperatorTablePanel;
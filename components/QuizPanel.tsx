@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+
+import { describeQuestion, QuizQuestion, QuizVerdict } from "../logic/quiz";
+import { QuizScore } from "../types";
+
+interface QuizPanelProps {
+  question: QuizQuestion | null;
+  verdict: QuizVerdict | null;
+  score: QuizScore;
+  onNew: () => void;
+  onSubmit: (answer: string) => void;
+  theme: "light" | "dark";
+}
+
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700";
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ question, verdict, score, onNew, onSubmit, theme }) => {
+  const [answer, setAnswer] = useState("");
+  const primary = theme === "dark" ? "bg-green-600 text-black" : "bg-indigo-600 text-white";
+
+  const next = () => {
+    setAnswer("");
+    onNew();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className={`${labelClass} flex items-center gap-2`}>
+          <i className="fas fa-graduation-cap"></i> Practice
+        </label>
+        <span className="text-[10px] font-black uppercase tracking-widest text-indigo-500 dark:text-green-500" title={`Best streak ${score.best}`}>
+          {score.correct}/{score.attempted} · streak {score.streak}
+        </span>
+      </div>
+
+      {question ? (
+        <>
+          <div className="space-y-1">
+            <span className={labelClass}>{describeQuestion(question)}</span>
+            <div className="font-mono font-black text-lg text-slate-700 dark:text-green-300 break-all">{question.expression}</div>
+          </div>
+          <input
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !verdict && answer.trim() && onSubmit(answer)}
+            disabled={!!verdict}
+            className="w-full bg-slate-50 dark:bg-black border-2 border-slate-100 dark:border-green-900 p-3 rounded-xl font-mono font-bold text-sm outline-none focus:border-indigo-500 dark:focus:border-green-500 dark:text-green-400 disabled:opacity-60"
+            placeholder={question.target === "value" ? "Your value" : `Your ${question.target} form`}
+          />
+          {verdict && (
+            <p className={`text-xs font-bold ${verdict.correct ? "text-emerald-600 dark:text-green-400" : "text-red-500"}`}>
+              <i className={`fas ${verdict.correct ? "fa-check-circle" : "fa-times-circle"} mr-2`}></i>
+              {verdict.message}
+              {verdict.divergeStep !== null && ` (the trace is at step ${verdict.divergeStep + 1}, where your answer first differs)`}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => onSubmit(answer)}
+              disabled={!!verdict || !answer.trim()}
+              className={`py-2 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40 ${primary}`}
+            >
+              Check
+            </button>
+            <button
+              onClick={next}
+              className="py-2 rounded-xl border-2 border-slate-100 dark:border-green-900 font-black text-[10px] uppercase tracking-widest text-slate-500 dark:text-green-600"
+            >
+              {verdict ? "Next" : "Skip"}
+            </button>
+          </div>
+        </>
+      ) : (
+        <button onClick={next} className={`w-full py-3 rounded-xl font-black text-[10px] uppercase tracking-widest ${primary}`}>
+          Start practicing
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
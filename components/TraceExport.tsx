@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+
+import { traceToLatex, traceToMarkdown, traceWorksheet, TraceStep } from "../logic/exporters";
+
+interface TraceExportProps {
+  steps: TraceStep[];
+  title: string; // e.g. "Infix → Postfix: A+B*C"
+  expression: string;
+  theme: "light" | "dark";
+}
+
+type CopyFormat = "markdown" | "latex";
+
+const TraceExport: React.FC<TraceExportProps> = ({ steps, title, expression, theme }) => {
+  const [copied, setCopied] = useState<CopyFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Non-secure origins and denied permissions have no clipboard
+  const copy = async (format: CopyFormat) => {
+    try {
+      await navigator.clipboard.writeText(format === "markdown" ? traceToMarkdown(steps, title) : traceToLatex(steps, title));
+    } catch {
+      setError("The browser blocked clipboard access, so nothing was copied");
+      return;
+    }
+    setError(null);
+    setCopied(format);
+    window.setTimeout(() => setCopied(null), 1500);
+  };
+
+  // The worksheet prints from its own window so the lab's styles stay out of it
+  const printWorksheet = () => {
+    const sheet = window.open("", "_blank");
+    if (!sheet) return;
+    sheet.document.write(traceWorksheet(steps, title, expression));
+    sheet.document.close();
+    sheet.focus();
+    sheet.print();
+  };
+
+  const button = `px-3 py-2 rounded-lg border-2 text-[10px] font-black uppercase tracking-widest transition ${theme === "dark"
+    ? "border-green-900 text-green-600 hover:border-green-600"
+    : "border-slate-100 text-slate-500 hover:border-indigo-200"
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700 mr-2">Export</span>
+      <button onClick={() => copy("markdown")} className={button} title="Copy the table as Markdown">
+        <i className={`fas ${copied === "markdown" ? "fa-check" : "fa-copy"} mr-2`}></i>Markdown
+      </button>
+      <button onClick={() => copy("latex")} className={button} title="Copy the table as a LaTeX tabular">
+        <i className={`fas ${copied === "latex" ? "fa-check" : "fa-copy"} mr-2`}></i>LaTeX
+      </button>
+      <button onClick={printWorksheet} className={button} title="Print the trace with the stack and output left blank">
+        <i className="fas fa-print mr-2"></i>Worksheet
+      </button>
+      {error && <span className="text-xs font-bold text-red-500">{error}</span>}
+    </div>
+  );
+};
+
+export default TraceExport;
@@ -0,0 +1,68 @@
+import React from "react";
+
+import { TruthTable as TruthTableData, TruthTableRow } from "../logic/boolean";
+
+interface TruthTableProps {
+  table: TruthTableData;
+  activeRow: number | null;
+  onSelect: (row: TruthTableRow) => void;
+  theme: "light" | "dark";
+}
+
+const cellClass = "p-3 font-mono font-black text-center";
+
+const TruthTable: React.FC<TruthTableProps> = ({ table, activeRow, onSelect, theme }) => {
+  if (table.error) {
+    return (
+      <div className="p-4 rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 text-sm font-bold text-red-600 dark:text-red-400">
+        {table.error}
+      </div>
+    );
+  }
+
+  const truthClass = (value: string) =>
+    value === "true"
+      ? theme === "dark" ? "text-green-400" : "text-emerald-600"
+      : value === "false" ? "text-red-500" : "text-slate-500 dark:text-slate-300";
+
+  return (
+    <table className="w-full text-left">
+      <thead className="bg-slate-50 dark:bg-[#1a1a1a] sticky top-0">
+        <tr>
+          {table.variables.map((v) => (
+            <th key={v} className="p-3 text-center text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
+              {v}
+            </th>
+          ))}
+          <th className="p-3 text-center text-[10px] font-black uppercase text-slate-400 dark:text-green-700">
+            Result
+          </th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100 dark:divide-green-900/20">
+        {table.rows.map((row, idx) => (
+          <tr
+            key={idx}
+            onClick={() => onSelect(row)}
+            title="Replay this assignment step by step"
+            className={`cursor-pointer hover:bg-slate-50 dark:hover:bg-green-900/10 transition ${idx === activeRow
+              ? theme === "dark"
+                ? "bg-green-900/20"
+                : "bg-indigo-50/50"
+              : ""
+              }`}
+          >
+            {table.variables.map((v) => (
+              <td key={v} className={`${cellClass} ${truthClass(String(row.bindings[v]))}`}>
+                {row.bindings[v] ? "T" : "F"}
+              </td>
+            ))}
+            <td className={`${cellClass} ${truthClass(row.result)}`}>{row.result}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default TruthTable;
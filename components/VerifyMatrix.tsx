@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+
+import { parse } from "../logic/ast";
+import { checkEquivalent, passed, NOTATIONS, EquivalenceCheck, VerifyReport } from "../logic/verify";
+import { ExpressionType, OperatorTable } from "../types";
+
+interface VerifyMatrixProps {
+  report: VerifyReport;
+  operators: OperatorTable;
+  theme: "light" | "dark";
+}
+
+const fieldClass =
+  "bg-slate-50 dark:bg-black border-2 border-slate-100 dark:border-green-900 p-3 rounded-xl font-mono font-bold text-sm outline-none focus:border-indigo-500 dark:focus:border-green-500 dark:text-green-400";
+
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-green-700";
+
+const Verdict: React.FC<{ check: EquivalenceCheck; trials: number }> = ({ check, trials }) => {
+  const ok = passed(check);
+  const reason = check.error
+    ? check.error
+    : !check.sameValues
+      ? `Values differ at ${Object.entries(check.counterexample ?? {}).map(([k, v]) => `${k}=${v}`).join(", ") || "every assignment"}`
+      : !check.sameTree
+        ? `Same values on ${trials} random assignments, but a different tree`
+        : `Same tree, same values on ${trials} random assignments`;
+  return (
+    <div className={`flex items-start gap-2 text-[11px] font-bold ${ok ? "text-emerald-600 dark:text-green-400" : "text-red-500"}`}>
+      <i className={`fas ${ok ? "fa-check-circle" : "fa-times-circle"} mt-0.5`}></i>
+      <span>{reason}</span>
+    </div>
+  );
+};
+
+const VerifyMatrix: React.FC<VerifyMatrixProps> = ({ report, operators, theme }) => {
+  const [answer, setAnswer] = useState("");
+  const [answerNotation, setAnswerNotation] = useState<ExpressionType>("postfix");
+
+  if (report.error) {
+    return (
+      <div className="p-4 rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 text-sm font-bold text-red-600 dark:text-red-400">
+        {report.error.message}
+      </div>
+    );
+  }
+
+  const reference = parse(report.forms[report.source], report.source, operators).ast!;
+  const answerCheck = answer.trim() ? checkEquivalent(reference, answer, answerNotation, operators) : null;
+  const cell = (from: ExpressionType, to: ExpressionType) =>
+    report.conversions.find((c) => c.from === from && c.to === to)!;
+  const allPassed = [...report.conversions, ...report.roundTrips].every(passed);
+
+  return (
+    <div className="space-y-6">
+      <div
+        className={`p-4 rounded-xl border text-sm font-bold ${allPassed
+          ? "border-emerald-200 dark:border-green-900/50 bg-emerald-50 dark:bg-green-950/20 text-emerald-700 dark:text-green-400"
+          : "border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 text-red-600 dark:text-red-400"
+          }`}
+      >
+        <i className={`fas ${allPassed ? "fa-check-double" : "fa-triangle-exclamation"} mr-2`}></i>
+        {allPassed
+          ? "All six conversions and both round trips agree with the input"
+          : "Some conversions disagree with the input"}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-separate border-spacing-2">
+          <thead>
+            <tr>
+              <th className={labelClass}>From \ To</th>
+              {NOTATIONS.map((to) => (
+                <th key={to} className={labelClass}>{to}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {NOTATIONS.map((from) => (
+              <tr key={from}>
+                <td className={`${labelClass} align-top pt-3`}>
+                  {from}
+                  {from === report.source && <span className="block text-[9px] normal-case tracking-normal">(your input)</span>}
+                </td>
+                {NOTATIONS.map((to) => {
+                  if (to === from) {
+                    return (
+                      <td key={to} className="p-3 rounded-xl bg-slate-50 dark:bg-black/30 font-mono text-xs text-slate-400 dark:text-green-800 align-top">
+                        {report.forms[from]}
+                      </td>
+                    );
+                  }
+                  const check = cell(from, to);
+                  return (
+                    <td
+                      key={to}
+                      className={`p-3 rounded-xl border-2 align-top space-y-2 ${passed(check)
+                        ? theme === "dark" ? "border-green-900/50" : "border-emerald-100"
+                        : "border-red-300 dark:border-red-900"
+                        }`}
+                    >
+                      <div className="font-mono text-xs font-black text-slate-700 dark:text-green-300 break-all">
+                        {check.output || "—"}
+                      </div>
+                      <Verdict check={check} trials={report.trials} />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Round trips</span>
+        {report.roundTrips.map((trip) => (
+          <div key={trip.path.join(">")} className="p-3 rounded-xl border-2 border-slate-100 dark:border-green-900/30 space-y-1">
+            <div className="font-mono text-xs text-slate-500 dark:text-green-600">
+              {trip.path.join(" → ")}: <span className="font-black text-slate-700 dark:text-green-300">{trip.outputs.join("  →  ")}</span>
+            </div>
+            <Verdict check={trip} trials={report.trials} />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <span className={labelClass}>Check your own answer</span>
+        <div className="flex flex-wrap gap-2">
+          {NOTATIONS.map((n) => (
+            <button
+              key={n}
+              onClick={() => setAnswerNotation(n)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border-2 transition ${answerNotation === n
+                ? theme === "dark"
+                  ? "border-green-500 text-green-400 bg-green-900/20"
+                  : "border-indigo-500 text-indigo-600 bg-indigo-50"
+                : "border-slate-100 dark:border-green-900 text-slate-400 dark:text-green-800"
+                }`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+        <input
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          className={`${fieldClass} w-full`}
+          placeholder={`Your ${answerNotation} form of ${report.forms[report.source]}`}
+        />
+        {answerCheck && <Verdict check={answerCheck} trials={report.trials} />}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyMatrix;
@@ -1,247 +1,480 @@
 
 import { Stack } from './stack';
-import { PRECEDENCE, ASSOCIATIVITY, isOperator, isOperand } from './constants';
-import { Step, EvaluationStep } from '../types';
+import { DEFAULT_OPERATORS, FUNCTIONS, isOperand } from './constants';
+import { tokenize, tokenizePolish, joinTokens, hasMultiCharToken, Token } from './lexer';
+import { validateInfix, validatePostfix, validatePrefix } from './validation';
+import { leafNode, unaryNode, binaryNode, callNode, printInfix, printPostfix, printPrefix } from './ast';
+import { keyOf, popWhileOutranked, tieRule } from './precedence';
+import { Step, EvaluationStep, InfixEvaluationStep, ExpressionError, ExprNode, ParenthesesMode, Bindings, OperatorTable, PrefixStage, StepExplanation } from '../types';
+
+export type ConversionResult = { steps: Step[], result: string, error?: ExpressionError };
+export type EvaluationResult = { steps: EvaluationStep[], result: number, error?: ExpressionError };
+
+export interface ConversionOptions {
+  operators?: OperatorTable; // defaults to DEFAULT_OPERATORS
+}
+
+export interface InfixOutputOptions extends ConversionOptions {
+  parens?: ParenthesesMode; // defaults to 'minimal'
+}
+
+export interface EvaluationOptions extends ConversionOptions {
+  bindings?: Bindings; // values substituted for identifiers
+}
+
+const poppedList = (explain: StepExplanation) => explain.popped.map(p => `'${p.operator}'`).join(', ');
 
 /**
- * Shunting-Yard Algorithm: Infix to Postfix
+ * Shunting-Yard pass over already lexed tokens (shared with infixToPrefix).
+ * `reversed` is set when the tokens are read right to left: a unary minus
+ * then comes after its operand and behaves like a postfix operator, and
+ * ties between equal precedences break the other way round.
  */
-export const infixToPostfix = (expression: string): { steps: Step[], result: string } => {
+const shuntingYard = (
+  tokens: Token[],
+  multiChar: boolean,
+  table: OperatorTable,
+  reversed = false
+): { steps: Step[], output: Token[] } => {
   const steps: Step[] = [];
-  const stack = new Stack<string>();
-  let output = "";
-  const tokens = expression.replace(/\s+/g, '').split('');
-
-  tokens.forEach(token => {
+  const stack = new Stack<Token>();
+  const output: Token[] = [];
+  const values = () => stack.toArray().map(keyOf);
+  const text = () => joinTokens(output.map(keyOf), multiChar);
+  tokens.forEach(tok => {
+    const { value: token, index: tokenIndex } = tok;
     let action = "";
+    let explain: StepExplanation | undefined;
+    const emitted: number[] = [];
+    const emit = () => {
+      const op = stack.pop()!;
+      output.push(op);
+      emitted.push(op.index);
+    };
+
     if (isOperand(token)) {
-      output += token;
+      output.push(tok);
       action = `Operand '${token}' added to output`;
     } else if (token === '(') {
-      stack.push(token);
+      stack.push(tok);
       action = `Left paren pushed to stack`;
     } else if (token === ')') {
       action = `Right paren: popping until '('`;
-      while (!stack.isEmpty() && stack.peek() !== '(') {
-        output += stack.pop();
+      while (!stack.isEmpty() && stack.peek()!.value !== '(') {
+        emit();
       }
       stack.pop();
-    } else if (isOperator(token)) {
-      while (
-        !stack.isEmpty() &&
-        stack.peek() !== '(' &&
-        (
-          PRECEDENCE[stack.peek()!] > PRECEDENCE[token] ||
-          (PRECEDENCE[stack.peek()!] === PRECEDENCE[token] && ASSOCIATIVITY[token] === 'L')
-        )
-      ) {
-        output += stack.pop();
+      if (stack.peek()?.type === 'function') {
+        action = `Right paren closes '${stack.peek()!.value}(...)': popping until '(' then emitting '${stack.peek()!.value}'`;
+        emit();
+      }
+    } else if (tok.type === 'comma') {
+      action = `Comma: popping until '(' to finish the current argument`;
+      while (!stack.isEmpty() && stack.peek()!.value !== '(') {
+        emit();
       }
-      stack.push(token);
-      action = `Operator '${token}' processed (precedence check)`;
+    } else if (tok.type === 'function' && reversed) {
+      output.push(tok);
+      emitted.push(tokenIndex);
+      action = `Function '${token}' follows its arguments when read backwards: output '${token}'`;
+    } else if (tok.type === 'function') {
+      stack.push(tok);
+      action = `Function '${token}' pushed to stack (emitted when its ')' arrives)`;
+    } else if (tok.unary && !tok.symbol) {
+      action = `Unary '+' has no effect; skipped`;
+    } else if (tok.unary && reversed) {
+      explain = popWhileOutranked(stack, tok, table, { pops: false, reason: 'a unary operator read backwards only pops tighter ones' }, emit);
+      output.push(tok);
+      emitted.push(tokenIndex);
+      action = `Unary '${token}' follows its operand when read backwards: output '${tok.symbol}'`;
+    } else if (tok.unary) {
+      stack.push(tok);
+      action = `Unary '${token}' pushed as '${tok.symbol}' (no left operand, so nothing is popped)`;
+    } else if (tok.type === 'operator') {
+      explain = popWhileOutranked(stack, tok, table, tieRule(tok, table, reversed), emit);
+      stack.push(tok);
+      action = explain.popped.length
+        ? `Operator '${token}': pop ${poppedList(explain)} to the output, then push '${token}'`
+        : `Operator '${token}' pushed to stack (nothing outranks it)`;
     }
 
-    steps.push({ token, stack: stack.toArray(), output, action });
+    steps.push({ token, tokenIndex, stack: values(), output: text(), action, emitted, ...(explain && { explain }) });
   });
 
   while (!stack.isEmpty()) {
     const op = stack.pop()!;
-    output += op;
-    steps.push({ token: 'EOF', stack: stack.toArray(), output, action: `Popping remaining '${op}'` });
+    output.push(op);
+    steps.push({ token: 'EOF', stack: values(), output: text(), action: `Popping remaining '${keyOf(op)}'`, emitted: [op.index] });
   }
 
-  return { steps, result: output };
+  return { steps, output };
 };
 
 /**
- * Infix to Prefix
+ * Shunting-Yard Algorithm: Infix to Postfix
  */
-export const infixToPrefix = (expression: string): { steps: Step[], result: string } => {
-  const reversed = expression.split('').reverse().map(c => {
-    if (c === '(') return ')';
-    if (c === ')') return '(';
-    return c;
-  }).join('');
+export const infixToPostfix = (expression: string, options: ConversionOptions = {}): ConversionResult => {
+  const operators = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenize(expression, { operators });
+  const error = validateInfix(tokens);
+  if (error) return { steps: [], result: "", error };
+  const multiChar = hasMultiCharToken(tokens);
+  const { steps, output } = shuntingYard(tokens, multiChar, operators);
 
-  const { steps, result: postfixOfReversed } = infixToPostfix(reversed);
-  const finalResult = postfixOfReversed.split('').reverse().join('');
+  return { steps, result: joinTokens(output.map(keyOf), multiChar) };
+};
+
+export const PREFIX_STAGES: Record<PrefixStage, string> = {
+  'reverse-input': 'Pass 1 of 3: reverse the input',
+  scan: 'Pass 2 of 3: Shunting-Yard on the reversed input',
+  'reverse-output': 'Pass 3 of 3: reverse the output',
+};
+
+/**
+ * Infix to Prefix: reverse the input (swapping brackets), run Shunting-Yard
+ * with right-to-left tie-breaking, then reverse its output. Each pass is a
+ * labeled sub-trace of the steps.
+ */
+export const infixToPrefix = (expression: string, options: ConversionOptions = {}): ConversionResult => {
+  const operators = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenize(expression, { operators });
+  const error = validateInfix(tokens);
+  if (error) return { steps: [], result: "", error };
+  const multiChar = hasMultiCharToken(tokens);
+
+  const reversedTokens: Token[] = [];
+  const reverseSteps: Step[] = [...tokens].reverse().map(t => {
+    const swapped = t.type === 'lparen'
+      ? { ...t, type: 'rparen' as const, value: ')' }
+      : t.type === 'rparen' ? { ...t, type: 'lparen' as const, value: '(' } : t;
+    reversedTokens.push(swapped);
+    return {
+      token: t.value,
+      tokenIndex: t.index,
+      stack: [],
+      output: joinTokens(reversedTokens.map(r => r.value), multiChar),
+      action: swapped === t ? `Append '${t.value}'` : `Append '${t.value}' swapped to '${swapped.value}'`,
+      stage: 'reverse-input'
+    };
+  });
+
+  const { steps, output } = shuntingYard(reversedTokens, multiChar, operators, true);
+
+  const prefix: string[] = [];
+  const outputSteps: Step[] = [...output].reverse().map(t => {
+    prefix.push(keyOf(t));
+    return {
+      token: keyOf(t),
+      tokenIndex: t.index,
+      stack: [],
+      output: joinTokens(prefix, multiChar),
+      action: `Take '${keyOf(t)}' from the end of the scan output`,
+      stage: 'reverse-output'
+    };
+  });
 
   return {
-    steps: [
-      { token: 'REVERSE', stack: [], output: reversed, action: 'Step 1: Reverse input and swap brackets' },
-      ...steps,
-      { token: 'FINAL', stack: [], output: finalResult, action: 'Step 2: Reverse postfix result to get Prefix' }
-    ],
-    result: finalResult
+    steps: [...reverseSteps, ...steps.map(step => ({ ...step, stage: 'scan' as const })), ...outputSteps],
+    result: joinTokens(prefix, multiChar)
   };
 };
 
 /**
- * Postfix to Infix
+ * Stack-of-subtrees scan shared by the four postfix/prefix converters.
+ * Postfix reads left to right and pops (right, left); prefix reads right
+ * to left and pops (left, right). `show` renders a subtree in the target notation.
  */
-export const postfixToInfix = (expression: string): { steps: Step[], result: string } => {
+const convertPolish = (
+  tokens: Token[],
+  from: 'postfix' | 'prefix',
+  show: (node: ExprNode) => string
+): Step[] => {
   const steps: Step[] = [];
-  const stack = new Stack<string>();
-  const tokens = expression.replace(/\s+/g, '').split('');
+  const stack = new Stack<ExprNode>();
+  const ordered = from === 'prefix' ? [...tokens].reverse() : tokens;
 
-  tokens.forEach(token => {
+  ordered.forEach(tok => {
+    const { value: token, index: tokenIndex } = tok;
     let action = "";
     if (isOperand(token)) {
-      stack.push(token);
+      stack.push(leafNode(tok));
       action = `Push operand '${token}'`;
-    } else if (isOperator(token)) {
-      const op2 = stack.pop() ?? '?';
-      const op1 = stack.pop() ?? '?';
-      const combined = `(${op1}${token}${op2})`;
+    } else if (tok.type === 'function') {
+      const { arity } = FUNCTIONS[token];
+      const popped = Array.from({ length: arity }, () => stack.pop()!);
+      // Postfix pops the last argument first; prefix pops the first argument first
+      const args = from === 'postfix' ? [...popped].reverse() : popped;
+      const combined = callNode(token, args, tokenIndex);
+      stack.push(combined);
+      action = `Pop ${popped.map(n => `'${show(n)}'`).join(', ')}; Push '${show(combined)}'`;
+    } else if (tok.unary) {
+      const operand = stack.pop()!;
+      const combined = unaryNode(tok.symbol!, operand, tokenIndex);
+      stack.push(combined);
+      action = `Pop '${show(operand)}'; Push '${show(combined)}'`;
+    } else if (tok.type === 'operator') {
+      const first = stack.pop()!;
+      const second = stack.pop()!;
+      const combined = from === 'postfix'
+        ? binaryNode(token, second, first, tokenIndex)
+        : binaryNode(token, first, second, tokenIndex);
       stack.push(combined);
-      action = `Pop '${op2}', '${op1}'; Push '${combined}'`;
+      action = `Pop '${show(first)}', '${show(second)}'; Push '${show(combined)}'`;
     }
-    steps.push({ token, stack: stack.toArray(), output: stack.peek() || "", action });
+    steps.push({ token, tokenIndex, stack: stack.toArray().map(show), output: stack.isEmpty() ? "" : show(stack.peek()!), action });
   });
 
-  return { steps, result: stack.peek() || "" };
+  return steps;
 };
 
+const finish = (steps: Step[]): ConversionResult =>
+  ({ steps, result: steps[steps.length - 1]?.output ?? "" });
+
 /**
- * Prefix to Infix
+ * Postfix to Infix
  */
-export const prefixToInfix = (expression: string): { steps: Step[], result: string } => {
-  const steps: Step[] = [];
-  const stack = new Stack<string>();
-  const tokens = expression.replace(/\s+/g, '').split('').reverse();
+export const postfixToInfix = (expression: string, options: InfixOutputOptions = {}): ConversionResult => {
+  const operators = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenizePolish(expression, operators);
+  const error = validatePostfix(tokens);
+  if (error) return { steps: [], result: "", error };
 
-  tokens.forEach(token => {
-    let action = "";
-    if (isOperand(token)) {
-      stack.push(token);
-      action = `Push operand '${token}'`;
-    } else if (isOperator(token)) {
-      const op1 = stack.pop() ?? '?';
-      const op2 = stack.pop() ?? '?';
-      const combined = `(${op1}${token}${op2})`;
-      stack.push(combined);
-      action = `Pop '${op1}', '${op2}'; Push '${combined}'`;
-    }
-    steps.push({ token, stack: stack.toArray(), output: stack.peek() || "", action });
-  });
+  return finish(convertPolish(tokens, 'postfix', node => printInfix(node, options.parens, operators)));
+};
+
+/**
+ * Prefix to Infix
+ */
+export const prefixToInfix = (expression: string, options: InfixOutputOptions = {}): ConversionResult => {
+  const operators = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenizePolish(expression, operators);
+  const error = validatePrefix(tokens);
+  if (error) return { steps: [], result: "", error };
 
-  return { steps, result: stack.peek() || "" };
+  return finish(convertPolish(tokens, 'prefix', node => printInfix(node, options.parens, operators)));
 };
 
 /**
  * Postfix to Prefix
  */
-export const postfixToPrefix = (expression: string): { steps: Step[], result: string } => {
-  const steps: Step[] = [];
-  const stack = new Stack<string>();
-  const tokens = expression.replace(/\s+/g, '').split('');
-
-  tokens.forEach(token => {
-    let action = "";
-    if (isOperand(token)) {
-      stack.push(token);
-      action = `Push operand '${token}'`;
-    } else if (isOperator(token)) {
-      const op2 = stack.pop() ?? '?';
-      const op1 = stack.pop() ?? '?';
-      const combined = `${token}${op1}${op2}`;
-      stack.push(combined);
-      action = `Pop '${op2}', '${op1}'; Push '${combined}'`;
-    }
-    steps.push({ token, stack: stack.toArray(), output: stack.peek() || "", action });
-  });
+export const postfixToPrefix = (expression: string, options: ConversionOptions = {}): ConversionResult => {
+  const tokens = tokenizePolish(expression, options.operators ?? DEFAULT_OPERATORS);
+  const error = validatePostfix(tokens);
+  if (error) return { steps: [], result: "", error };
+  const multiChar = hasMultiCharToken(tokens);
 
-  return { steps, result: stack.peek() || "" };
+  return finish(convertPolish(tokens, 'postfix', node => printPrefix(node, multiChar)));
 };
 
 /**
  * Prefix to Postfix
  */
-export const prefixToPostfix = (expression: string): { steps: Step[], result: string } => {
-  const steps: Step[] = [];
-  const stack = new Stack<string>();
-  const tokens = expression.replace(/\s+/g, '').split('').reverse();
+export const prefixToPostfix = (expression: string, options: ConversionOptions = {}): ConversionResult => {
+  const tokens = tokenizePolish(expression, options.operators ?? DEFAULT_OPERATORS);
+  const error = validatePrefix(tokens);
+  if (error) return { steps: [], result: "", error };
+  const multiChar = hasMultiCharToken(tokens);
 
-  tokens.forEach(token => {
-    let action = "";
-    if (isOperand(token)) {
-      stack.push(token);
-      action = `Push operand '${token}'`;
-    } else if (isOperator(token)) {
-      const op1 = stack.pop() ?? '?';
-      const op2 = stack.pop() ?? '?';
-      const combined = `${op1}${op2}${token}`;
-      stack.push(combined);
-      action = `Pop '${op1}', '${op2}'; Push '${combined}'`;
-    }
-    steps.push({ token, stack: stack.toArray(), output: stack.peek() || "", action });
-  });
-
-  return { steps, result: stack.peek() || "" };
+  return finish(convertPolish(tokens, 'prefix', node => printPostfix(node, multiChar)));
 };
 
+// How a unary operator reads in a trace: '-' rather than '~'
+const unaryText = (table: OperatorTable, symbol: string) => table[symbol].infixSymbol ?? symbol;
+
 /**
  * Postfix Evaluation
  */
-export const evaluatePostfix = (expression: string): { steps: EvaluationStep[], result: number } => {
+export const evaluatePostfix = (expression: string, options: EvaluationOptions = {}): EvaluationResult => {
   const steps: EvaluationStep[] = [];
   const stack = new Stack<number>();
-  const tokens = expression.replace(/\s+/g, '').split('');
+  const operators = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenizePolish(expression, operators);
+  const bindings = options.bindings ?? {};
+  const error = validatePostfix(tokens, bindings);
+  if (error) return { steps: [], result: NaN, error };
 
-  tokens.forEach(token => {
+  tokens.forEach(({ type, value: token, index: tokenIndex, unary }) => {
     let action = "";
-    if (!isNaN(parseInt(token))) {
-      stack.push(parseInt(token));
+    if (type === 'number') {
+      stack.push(parseFloat(token));
       action = `Push operand ${token}`;
-    } else if (isOperator(token)) {
-      const b = stack.pop() ?? 0;
-      const a = stack.pop() ?? 0;
-      let res = 0;
-      switch (token) {
-        case '+': res = a + b; break;
-        case '-': res = a - b; break;
-        case '*': res = a * b; break;
-        case '/': res = a / b; break;
-        case '^': res = Math.pow(a, b); break;
-      }
+    } else if (type === 'identifier') {
+      stack.push(Number(bindings[token]));
+      action = `Substitute ${token} = ${bindings[token]}; Push ${Number(bindings[token])}`;
+    } else if (type === 'function') {
+      const { arity, apply } = FUNCTIONS[token];
+      const args = Array.from({ length: arity }, () => stack.pop()!).reverse();
+      const res = apply(...args);
+      stack.push(res);
+      action = `Pop ${[...args].reverse().join(', ')}; Compute ${token}(${args.join(', ')})=${res}; Push ${res}`;
+    } else if (unary) {
+      const a = stack.pop()!;
+      const res = operators[token].evaluate(a);
+      stack.push(res);
+      action = `Pop ${a}; Compute ${unaryText(operators, token)}(${a})=${res}; Push ${res}`;
+    } else if (type === 'operator') {
+      const b = stack.pop()!;
+      const a = stack.pop()!;
+      const res = operators[token].evaluate(a, b);
       stack.push(res);
       action = `Pop ${b}, ${a}; Compute ${a}${token}${b}=${res}; Push ${res}`;
     }
-    steps.push({ token, stack: stack.toArray(), action });
+    steps.push({ token, tokenIndex, stack: stack.toArray(), action });
   });
 
-  return { steps, result: stack.peek() || 0 };
+  return { steps, result: stack.peek() ?? 0 };
 };
 
 /**
  * Prefix Evaluation
  */
-export const evaluatePrefix = (expression: string): { steps: EvaluationStep[], result: number } => {
-  const reversed = expression.replace(/\s+/g, '').split('').reverse().join('');
+export const evaluatePrefix = (expression: string, options: EvaluationOptions = {}): EvaluationResult => {
+  const operators = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenizePolish(expression, operators);
+  const bindings = options.bindings ?? {};
+  const error = validatePrefix(tokens, bindings);
+  if (error) return { steps: [], result: NaN, error };
   const steps: EvaluationStep[] = [];
   const stack = new Stack<number>();
 
-  reversed.split('').forEach(token => {
+  [...tokens].reverse().forEach(({ type, value: token, index: tokenIndex, unary }) => {
     let action = "";
-    if (!isNaN(parseInt(token))) {
-      stack.push(parseInt(token));
+    if (type === 'number') {
+      stack.push(parseFloat(token));
       action = `Push operand ${token}`;
-    } else if (isOperator(token)) {
-      const a = stack.pop() ?? 0;
-      const b = stack.pop() ?? 0;
-      let res = 0;
-      switch (token) {
-        case '+': res = a + b; break;
-        case '-': res = a - b; break;
-        case '*': res = a * b; break;
-        case '/': res = a / b; break;
-        case '^': res = Math.pow(a, b); break;
-      }
+    } else if (type === 'identifier') {
+      stack.push(Number(bindings[token]));
+      action = `Substitute ${token} = ${bindings[token]}; Push ${Number(bindings[token])}`;
+    } else if (type === 'function') {
+      const { arity, apply } = FUNCTIONS[token];
+      const args = Array.from({ length: arity }, () => stack.pop()!);
+      const res = apply(...args);
+      stack.push(res);
+      action = `Pop ${args.join(', ')}; Compute ${token}(${args.join(', ')})=${res}; Push ${res}`;
+    } else if (unary) {
+      const a = stack.pop()!;
+      const res = operators[token].evaluate(a);
+      stack.push(res);
+      action = `Pop ${a}; Compute ${unaryText(operators, token)}(${a})=${res}; Push ${res}`;
+    } else if (type === 'operator') {
+      const a = stack.pop()!;
+      const b = stack.pop()!;
+      const res = operators[token].evaluate(a, b);
       stack.push(res);
       action = `Pop ${a}, ${b}; Compute ${a}${token}${b}=${res}; Push ${res}`;
     }
-    steps.push({ token, stack: stack.toArray(), action });
+    steps.push({ token, tokenIndex, stack: stack.toArray(), action });
   });
 
-  return { steps, result: stack.peek() || 0 };
+  return { steps, result: stack.peek() ?? 0 };
+};
+
+/**
+ * Infix Evaluation (two stacks): operands wait on one stack, operators on
+ * the other. Whenever an operator has to leave the operator stack it is
+ * applied to the top two operands instead of being written to an output.
+ */
+export const evaluateInfix = (expression: string, options: EvaluationOptions = {}): EvaluationResult => {
+  const table = options.operators ?? DEFAULT_OPERATORS;
+  const tokens = tokenize(expression, { operators: table });
+  const bindings = options.bindings ?? {};
+  const error = validateInfix(tokens, bindings);
+  if (error) return { steps: [], result: NaN, error };
+
+  const steps: InfixEvaluationStep[] = [];
+  const operands = new Stack<number>();
+  const operators = new Stack<Token>();
+
+  // Pop one operator and reduce the operand stack with it
+  const apply = (applied: string[], emitted: number[]) => {
+    const op = operators.pop()!;
+    let res: number;
+    if (op.type === 'function') {
+      const { arity, apply: fn } = FUNCTIONS[op.value];
+      const args = Array.from({ length: arity }, () => operands.pop()!).reverse();
+      res = fn(...args);
+      applied.push(`${op.value}(${args.join(', ')})=${res}`);
+    } else if (op.unary) {
+      const a = operands.pop()!;
+      res = table[op.symbol!].evaluate(a);
+      applied.push(`${unaryText(table, op.symbol!)}(${a})=${res}`);
+    } else {
+      const b = operands.pop()!;
+      const a = operands.pop()!;
+      res = table[op.value].evaluate(a, b);
+      applied.push(`${a}${op.value}${b}=${res}`);
+    }
+    operands.push(res);
+    emitted.push(op.index);
+  };
+
+  const record = (
+    token: string,
+    tokenIndex: number | undefined,
+    action: string,
+    applied: string[],
+    emitted: number[],
+    explain?: StepExplanation
+  ) => {
+    steps.push({
+      token,
+      tokenIndex,
+      stack: operands.toArray(),
+      operators: operators.toArray().map(keyOf),
+      action: applied.length ? `${action}; Compute ${applied.join(', ')}` : action,
+      emitted,
+      ...(explain && { explain })
+    });
+  };
+
+  tokens.forEach(tok => {
+    const { type, value: token, index: tokenIndex } = tok;
+    const applied: string[] = [];
+    const emitted: number[] = [];
+    const applyTop = () => apply(applied, emitted);
+
+    let action = "";
+    let explain: StepExplanation | undefined;
+    if (type === 'number') {
+      operands.push(parseFloat(token));
+      action = `Push operand ${token}`;
+    } else if (type === 'identifier') {
+      operands.push(Number(bindings[token]));
+      action = `Substitute ${token} = ${bindings[token]}; Push ${Number(bindings[token])}`;
+    } else if (type === 'function' || type === 'lparen') {
+      operators.push(tok);
+      action = `Push '${token}' to operator stack`;
+    } else if (type === 'comma') {
+      while (operators.peek()!.type !== 'lparen') applyTop();
+      action = `Comma: apply operators back to '('`;
+    } else if (type === 'rparen') {
+      while (operators.peek()!.type !== 'lparen') applyTop();
+      operators.pop();
+      if (operators.peek()?.type === 'function') applyTop();
+      action = `Right paren: apply operators back to '('`;
+    } else if (tok.unary && !tok.symbol) {
+      action = `Unary '+' has no effect; skipped`;
+    } else if (tok.unary) {
+      operators.push(tok);
+      action = `Push unary '${tok.symbol}' to operator stack`;
+    } else if (type === 'operator') {
+      explain = popWhileOutranked(operators, tok, table, tieRule(tok, table), applyTop);
+      operators.push(tok);
+      action = explain.popped.length
+        ? `Operator '${token}': apply ${poppedList(explain)}, then push '${token}'`
+        : `Operator '${token}' pushed to operator stack (nothing outranks it)`;
+    }
+
+    record(token, tokenIndex, action, applied, emitted, explain);
+  });
+
+  while (!operators.isEmpty()) {
+    const applied: string[] = [];
+    const emitted: number[] = [];
+    const op = keyOf(operators.peek()!);
+    apply(applied, emitted);
+    record('EOF', undefined, `Apply remaining '${op}'`, applied, emitted);
+  }
+
+  return { steps, result: operands.peek() ?? 0 };
 };
@@ -0,0 +1,294 @@
+import { Stack } from './stack';
+import { DEFAULT_OPERATORS, FUNCTIONS } from './constants';
+import { tokenize, tokenizePolish, joinTokens, Token } from './lexer';
+import { validateInfix, validatePostfix, validatePrefix } from './validation';
+import { popWhileOutranked, tieRule } from './precedence';
+import { Bindings, ExprNode, ExpressionError, ExpressionType, OperatorTable, ParenthesesMode } from '../types';
+
+export type ParseResult = { ast: ExprNode | null, error?: ExpressionError };
+
+export interface PrintOptions {
+  parens?: ParenthesesMode; // infix only, defaults to 'minimal'
+  operators?: OperatorTable;
+}
+
+export const leafNode = ({ type, value, index }: Token): ExprNode =>
+  type === 'number'
+    ? { kind: 'literal', value: parseFloat(value), raw: value, tokenIndex: index }
+    : { kind: 'identifier', name: value, tokenIndex: index };
+
+export const unaryNode = (operator: string, operand: ExprNode, tokenIndex?: number): ExprNode =>
+  ({ kind: 'unary', operator, operand, tokenIndex });
+
+export const callNode = (callee: string, args: ExprNode[], tokenIndex?: number): ExprNode =>
+  ({ kind: 'call', callee, args, tokenIndex });
+
+export const binaryNode = (operator: string, left: ExprNode, right: ExprNode, tokenIndex?: number): ExprNode =>
+  ({ kind: 'binary', operator, left, right, tokenIndex });
+
+/* ---------- Parsers ---------- */
+
+/**
+ * Infix parser: Shunting-Yard, but the output queue holds subtrees
+ * instead of tokens.
+ */
+export const parseInfixTokens = (tokens: Token[], table: OperatorTable = DEFAULT_OPERATORS): ExprNode => {
+  const operators = new Stack<Token>();
+  const operands = new Stack<ExprNode>();
+  const reduce = () => {
+    const op = operators.pop()!;
+    if (op.type === 'function') {
+      const args = Array.from({ length: FUNCTIONS[op.value].arity }, () => operands.pop()!).reverse();
+      operands.push(callNode(op.value, args, op.index));
+      return;
+    }
+    const right = operands.pop()!;
+    if (op.unary) {
+      operands.push(unaryNode(op.symbol!, right, op.index));
+      return;
+    }
+    const left = operands.pop()!;
+    operands.push(binaryNode(op.symbol!, left, right, op.index));
+  };
+
+  tokens.forEach(tok => {
+    if (tok.type === 'number' || tok.type === 'identifier') {
+      operands.push(leafNode(tok));
+    } else if (tok.unary) {
+      // Unary '+' is the identity and leaves no node behind
+      if (tok.symbol) operators.push(tok);
+    } else if (tok.type === 'function' || tok.type === 'lparen') {
+      operators.push(tok);
+    } else if (tok.type === 'comma') {
+      while (operators.peek()!.type !== 'lparen') reduce();
+    } else if (tok.type === 'rparen') {
+      while (operators.peek()!.type !== 'lparen') reduce();
+      operators.pop();
+      if (operators.peek()?.type === 'function') reduce();
+    } else if (tok.type === 'operator') {
+      popWhileOutranked(operators, tok, table, tieRule(tok, table), reduce);
+      operators.push(tok);
+    }
+  });
+
+  while (!operators.isEmpty()) reduce();
+  return operands.pop()!;
+};
+
+export const parsePostfixTokens = (tokens: Token[]): ExprNode => {
+  const stack = new Stack<ExprNode>();
+  tokens.forEach(tok => {
+    if (tok.type === 'function') {
+      const args = Array.from({ length: FUNCTIONS[tok.value].arity }, () => stack.pop()!).reverse();
+      stack.push(callNode(tok.value, args, tok.index));
+    } else if (tok.type === 'operator' && tok.unary) {
+      stack.push(unaryNode(tok.symbol!, stack.pop()!, tok.index));
+    } else if (tok.type === 'operator') {
+      const right = stack.pop()!;
+      const left = stack.pop()!;
+      stack.push(binaryNode(tok.symbol!, left, right, tok.index));
+    } else {
+      stack.push(leafNode(tok));
+    }
+  });
+  return stack.pop()!;
+};
+
+export const parsePrefixTokens = (tokens: Token[]): ExprNode => {
+  const stack = new Stack<ExprNode>();
+  [...tokens].reverse().forEach(tok => {
+    if (tok.type === 'function') {
+      const args = Array.from({ length: FUNCTIONS[tok.value].arity }, () => stack.pop()!);
+      stack.push(callNode(tok.value, args, tok.index));
+    } else if (tok.type === 'operator' && tok.unary) {
+      stack.push(unaryNode(tok.symbol!, stack.pop()!, tok.index));
+    } else if (tok.type === 'operator') {
+      const left = stack.pop()!;
+      const right = stack.pop()!;
+      stack.push(binaryNode(tok.symbol!, left, right, tok.index));
+    } else {
+      stack.push(leafNode(tok));
+    }
+  });
+  return stack.pop()!;
+};
+
+export const parseInfix = (expression: string, operators: OperatorTable = DEFAULT_OPERATORS): ParseResult => {
+  const tokens = tokenize(expression, { operators });
+  const error = validateInfix(tokens);
+  return error ? { ast: null, error } : { ast: parseInfixTokens(tokens, operators) };
+};
+
+export const parsePostfix = (expression: string, operators: OperatorTable = DEFAULT_OPERATORS): ParseResult => {
+  const tokens = tokenizePolish(expression, operators);
+  const error = validatePostfix(tokens);
+  return error ? { ast: null, error } : { ast: parsePostfixTokens(tokens) };
+};
+
+export const parsePrefix = (expression: string, operators: OperatorTable = DEFAULT_OPERATORS): ParseResult => {
+  const tokens = tokenizePolish(expression, operators);
+  const error = validatePrefix(tokens);
+  return error ? { ast: null, error } : { ast: parsePrefixTokens(tokens) };
+};
+
+export const parse = (expression: string, notation: ExpressionType, operators: OperatorTable = DEFAULT_OPERATORS): ParseResult => {
+  switch (notation) {
+    case 'infix': return parseInfix(expression, operators);
+    case 'postfix': return parsePostfix(expression, operators);
+    case 'prefix': return parsePrefix(expression, operators);
+  }
+};
+
+/* ---------- Printers ---------- */
+
+const leafText = (node: ExprNode): string | null =>
+  node.kind === 'literal' ? node.raw : node.kind === 'identifier' ? node.name : null;
+
+// Postfix/prefix need separators as soon as one token spans several characters
+export const hasMultiCharPart = (node: ExprNode): boolean => {
+  const text = leafText(node);
+  if (text !== null) return text.length > 1;
+  switch (node.kind) {
+    case 'unary': return node.operator.length > 1 || hasMultiCharPart(node.operand);
+    case 'binary': return node.operator.length > 1 || hasMultiCharPart(node.left) || hasMultiCharPart(node.right);
+    case 'call': return true;
+  }
+  return false;
+};
+
+// Minimal mode: does `child` need brackets to keep its place under `parent`?
+export const needsParens = (child: ExprNode, parent: ExprNode, side: 'left' | 'right', table: OperatorTable): boolean => {
+  if (child.kind !== 'binary' && child.kind !== 'unary') return false;
+  if (parent.kind !== 'binary' && parent.kind !== 'unary') return false;
+  const c = table[child.operator].precedence;
+  const p = table[parent.operator].precedence;
+  if (child.kind === 'unary') return c < p;
+  if (c !== p) return c < p;
+  // Equal precedence: only the side the operator does not group towards needs brackets
+  return table[parent.operator].associativity === 'L' ? side === 'right' : side === 'left';
+};
+
+/**
+ * Infix printer. "full" wraps every operation, e.g. ((A+B)*C);
+ * "minimal" keeps only the brackets precedence/associativity require, e.g. (A+B)*C.
+ */
+export const printInfix = (node: ExprNode, parens: ParenthesesMode = 'minimal', table: OperatorTable = DEFAULT_OPERATORS): string => {
+  const child = (c: ExprNode, side: 'left' | 'right') => {
+    const text = printInfix(c, parens, table);
+    return parens === 'minimal' && needsParens(c, node, side, table) ? `(${text})` : text;
+  };
+  const wrap = (text: string) => parens === 'full' ? `(${text})` : text;
+
+  switch (node.kind) {
+    case 'literal': return node.raw;
+    case 'identifier': return node.name;
+    case 'unary': return wrap(`${table[node.operator]?.infixSymbol ?? node.operator}${child(node.operand, 'right')}`);
+    case 'binary': return wrap(`${child(node.left, 'left')}${node.operator}${child(node.right, 'right')}`);
+    case 'call': return `${node.callee}(${node.args.map(arg => printInfix(arg, parens, table)).join(', ')})`;
+  }
+};
+
+const polishTokens = (node: ExprNode, operatorFirst: boolean): string[] => {
+  const text = leafText(node);
+  if (text !== null) return [text];
+
+  let head: string;
+  let children: ExprNode[];
+  switch (node.kind) {
+    case 'unary': head = node.operator; children = [node.operand]; break;
+    case 'binary': head = node.operator; children = [node.left, node.right]; break;
+    case 'call': head = node.callee; children = node.args; break;
+    default: return [];
+  }
+  const operands = children.flatMap(child => polishTokens(child, operatorFirst));
+  return operatorFirst ? [head, ...operands] : [...operands, head];
+};
+
+export const printPostfix = (node: ExprNode, multiChar = hasMultiCharPart(node)): string =>
+  joinTokens(polishTokens(node, false), multiChar);
+
+export const printPrefix = (node: ExprNode, multiChar = hasMultiCharPart(node)): string =>
+  joinTokens(polishTokens(node, true), multiChar);
+
+export const print = (node: ExprNode, notation: ExpressionType, options: PrintOptions = {}): string => {
+  switch (notation) {
+    case 'infix': return printInfix(node, options.parens, options.operators);
+    case 'postfix': return printPostfix(node);
+    case 'prefix': return printPrefix(node);
+  }
+};
+
+/**
+ * Any-to-any conversion through the tree
+ */
+export const convert = (
+  expression: string,
+  from: ExpressionType,
+  to: ExpressionType,
+  options: PrintOptions = {}
+): { result: string, ast: ExprNode | null, error?: ExpressionError } => {
+  const { ast, error } = parse(expression, from, options.operators);
+  if (!ast) return { result: "", ast, error };
+  return { result: print(ast, to, options), ast };
+};
+
+/**
+ * Structural equality: same shape, operators and leaves. Token positions
+ * are ignored, so trees parsed from different notations compare equal.
+ */
+export const sameTree = (a: ExprNode, b: ExprNode): boolean => {
+  switch (a.kind) {
+    case 'literal': return b.kind === 'literal' && a.value === b.value;
+    case 'identifier': return b.kind === 'identifier' && a.name === b.name;
+    case 'unary': return b.kind === 'unary' && a.operator === b.operator && sameTree(a.operand, b.operand);
+    case 'binary':
+      return b.kind === 'binary' && a.operator === b.operator && sameTree(a.left, b.left) && sameTree(a.right, b.right);
+    case 'call':
+      return b.kind === 'call' && a.callee === b.callee && a.args.length === b.args.length &&
+        a.args.every((arg, i) => sameTree(arg, b.args[i]));
+  }
+};
+
+// The text a node was read from: operator, name, callee or literal as written
+export const labelOf = (node: ExprNode): string => {
+  switch (node.kind) {
+    case 'literal': return node.raw;
+    case 'identifier': return node.name;
+    case 'unary':
+    case 'binary': return node.operator;
+    case 'call': return node.callee;
+  }
+};
+
+// Operands in evaluation order
+export const childrenOf = (node: ExprNode): ExprNode[] => {
+  switch (node.kind) {
+    case 'unary': return [node.operand];
+    case 'binary': return [node.left, node.right];
+    case 'call': return node.args;
+    default: return [];
+  }
+};
+
+export const variablesOf = (node: ExprNode): string[] => {
+  switch (node.kind) {
+    case 'literal': return [];
+    case 'identifier': return [node.name];
+    case 'unary': return variablesOf(node.operand);
+    case 'binary': return [...new Set([...variablesOf(node.left), ...variablesOf(node.right)])];
+    case 'call': return [...new Set(node.args.flatMap(variablesOf))];
+  }
+};
+
+/**
+ * Direct tree evaluation (no trace). Unbound identifiers evaluate to NaN.
+ */
+export const evaluateAst = (node: ExprNode, bindings: Bindings = {}, table: OperatorTable = DEFAULT_OPERATORS): number => {
+  switch (node.kind) {
+    case 'literal': return node.value;
+    case 'identifier': return Number(bindings[node.name] ?? NaN);
+    case 'unary': return table[node.operator].evaluate(evaluateAst(node.operand, bindings, table));
+    case 'binary': return table[node.operator].evaluate(evaluateAst(node.left, bindings, table), evaluateAst(node.right, bindings, table));
+    case 'call': return FUNCTIONS[node.callee].apply(...node.args.map(arg => evaluateAst(arg, bindings, table)));
+  }
+};
@@ -0,0 +1,122 @@
+import { AlgorithmResult } from '../types';
+
+export type BatchFormat = 'lines' | 'csv' | 'json';
+
+export interface BatchRow {
+  input: string;
+  data: AlgorithmResult;
+}
+
+// One row of an exported batch; importing an export reads `input` back
+export interface BatchExportRow {
+  input: string;
+  result: string | number | null;
+  steps: number;
+  error: string | null;
+}
+
+// Column names recognised in CSV headers and JSON objects
+const INPUT_KEYS = ['input', 'expression'];
+
+/**
+ * Uploads are read by extension; pasted text is JSON when it looks like
+ * it, otherwise one expression per line (so max(a, b) survives).
+ */
+export const detectFormat = (text: string, fileName = ''): BatchFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'json') return extension;
+  return /^\s*[[{]/.test(text) ? 'json' : 'lines';
+};
+
+// RFC 4180: quoted fields may hold commas, newlines and "" for a quote
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+};
+
+/**
+ * Reads the expressions out of a pasted list or an uploaded file. CSV
+ * uses the `input` (or `expression`) column when the first row names one,
+ * otherwise the first column; JSON is an array of strings or of objects
+ * with an `input` field, such as a previous export.
+ */
+export const parseBatch = (text: string, format: BatchFormat): { inputs: string[], error?: string } => {
+  const clean = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+
+  if (format === 'lines') return { inputs: clean(text.split(/\r?\n/)) };
+
+  if (format === 'csv') {
+    const rows = parseCsv(text);
+    const header = (rows[0] ?? []).map(cell => cell.trim().toLowerCase());
+    const column = header.findIndex(cell => INPUT_KEYS.includes(cell));
+    const body = column >= 0 ? rows.slice(1) : rows;
+    return { inputs: clean(body.map(row => row[Math.max(column, 0)] ?? '')) };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { inputs: [], error: `Invalid JSON: ${(e as Error).message}` };
+  }
+  if (!Array.isArray(parsed)) return { inputs: [], error: 'JSON must be an array of expressions' };
+  const inputs: string[] = [];
+  for (const [i, item] of parsed.entries()) {
+    const key = item && typeof item === 'object' ? INPUT_KEYS.find(k => typeof item[k] === 'string') : undefined;
+    if (typeof item !== 'string' && !key) {
+      return { inputs: [], error: `Item ${i + 1} is neither a string nor an object with an 'input' field` };
+    }
+    inputs.push(typeof item === 'string' ? item : item[key!]);
+  }
+  return { inputs: clean(inputs) };
+};
+
+export const exportRows = (rows: BatchRow[]): BatchExportRow[] =>
+  rows.map(({ input, data }) => ({
+    input,
+    result: data.error ? null : data.result,
+    steps: data.steps.length,
+    error: data.error?.message ?? null,
+  }));
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchToCsv = (rows: BatchRow[]): string =>
+  [
+    'input,result,steps,error',
+    ...exportRows(rows).map(row => [row.input, row.result, row.steps, row.error].map(csvField).join(',')),
+  ].join('\n') + '\n';
+
+export const batchToJson = (rows: BatchRow[]): string => JSON.stringify(exportRows(rows), null, 2);
@@ -0,0 +1,24 @@
+import { isFunction } from './constants';
+import { Bindings } from '../types';
+
+/**
+ * Parses "A=3, B=4, C=-2" or "P=true, Q=false" (commas, semicolons or
+ * newlines between pairs) into a variable environment. The first malformed
+ * pair is reported.
+ */
+export const parseBindings = (text: string): { bindings: Bindings, error?: string } => {
+  const bindings: Bindings = {};
+  const pairs = text.split(/[,;\n]/).map(p => p.trim()).filter(Boolean);
+
+  for (const pair of pairs) {
+    const match = pair.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(-?(\d+(\.\d*)?|\.\d+)|true|false)$/);
+    if (!match) return { bindings, error: `Cannot read '${pair}'; expected name=value` };
+    if (isFunction(match[1])) return { bindings, error: `'${match[1]}' is a function name` };
+    bindings[match[1]] = match[2] === 'true' || match[2] === 'false' ? match[2] === 'true' : parseFloat(match[2]);
+  }
+
+  return { bindings };
+};
+
+export const formatBindings = (bindings: Bindings): string =>
+  Object.entries(bindings).map(([name, value]) => `${name}=${value}`).join(', ');
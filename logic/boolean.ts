@@ -0,0 +1,98 @@
+import { DEFAULT_OPERATORS, FUNCTIONS } from './constants';
+import { OPERATOR_PRESETS, truth } from './operators';
+import { tokenize, tokenizePolish } from './lexer';
+import { evaluateInDomain, ValueDomain, DomainEvaluationResult } from './evaluator';
+import { Bindings, ExpressionType, OperatorTable } from '../types';
+
+/**
+ * Conditions as in C/Java, loosest first: || then && then equality,
+ * relational, and the arithmetic operators on top. '!' binds like unary minus.
+ */
+export const BOOLEAN_OPERATORS: OperatorTable = {
+  '||': { symbol: '||', precedence: 1, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a !== 0 || b !== 0) },
+  '&&': { symbol: '&&', precedence: 2, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a !== 0 && b !== 0) },
+  '==': { ...OPERATOR_PRESETS['=='], precedence: 3 },
+  '!=': { ...OPERATOR_PRESETS['!='], precedence: 3 },
+  '<': { ...OPERATOR_PRESETS['<'], precedence: 4 },
+  '<=': { ...OPERATOR_PRESETS['<='], precedence: 4 },
+  '>': { ...OPERATOR_PRESETS['>'], precedence: 4 },
+  '>=': { ...OPERATOR_PRESETS['>='], precedence: 4 },
+  '+': { ...DEFAULT_OPERATORS['+'], precedence: 5 },
+  '-': { ...DEFAULT_OPERATORS['-'], precedence: 5 },
+  '*': { ...DEFAULT_OPERATORS['*'], precedence: 6 },
+  '/': { ...DEFAULT_OPERATORS['/'], precedence: 6 },
+  '%': { ...OPERATOR_PRESETS['%'], precedence: 6 },
+  '!': { symbol: '!', precedence: 7, associativity: 'R', arity: 1, logical: true, evaluate: a => truth(a === 0) },
+  '~': { ...DEFAULT_OPERATORS['~'], precedence: 7 },
+  '^': { ...DEFAULT_OPERATORS['^'], precedence: 8 }
+};
+
+type Truth = number | boolean;
+
+// Logical operators treat any non-zero number as true
+const booleanDomain: ValueDomain<Truth> = {
+  operators: BOOLEAN_OPERATORS,
+  // `true` and `false` read as identifiers and are always bound
+  constants: { true: true, false: false },
+  literal: raw => parseFloat(raw),
+  bind: value => value,
+  apply: (def, args) => {
+    const value = def.evaluate(...args.map(Number));
+    return def.logical ? value !== 0 : value;
+  },
+  call: (name, args) => FUNCTIONS[name].apply(...args.map(Number)),
+  show: String
+};
+
+/**
+ * Evaluates a condition to true/false, with real truth values on the stack
+ */
+export const evaluateBoolean = (
+  expression: string,
+  notation: ExpressionType,
+  options: { bindings?: Bindings } = {}
+): DomainEvaluationResult => evaluateInDomain(expression, notation, booleanDomain, options);
+
+export const MAX_TRUTH_VARIABLES = 8;
+
+export interface TruthTableRow {
+  bindings: Bindings;
+  result: string;
+}
+
+export interface TruthTable {
+  variables: string[];
+  rows: TruthTableRow[];
+  error?: string;
+}
+
+/**
+ * Enumerates every true/false assignment of the expression's single-letter
+ * variables, counting up from all-false with the first variable as the
+ * most significant bit.
+ */
+export const truthTable = (expression: string, notation: ExpressionType): TruthTable => {
+  const tokens = notation === 'infix'
+    ? tokenize(expression, { operators: BOOLEAN_OPERATORS })
+    : tokenizePolish(expression, BOOLEAN_OPERATORS);
+  const names = tokens.filter(t => t.type === 'identifier' && !(t.value in booleanDomain.constants!)).map(t => t.value);
+  const variables = [...new Set(names)].sort();
+
+  const long = variables.find(v => v.length > 1);
+  if (long) return { variables: [], rows: [], error: `Truth tables need single-letter variables; '${long}' is longer` };
+  if (variables.length > MAX_TRUTH_VARIABLES) {
+    return { variables: [], rows: [], error: `Too many variables (${variables.length}); the limit is ${MAX_TRUTH_VARIABLES}` };
+  }
+
+  const rows: TruthTableRow[] = [];
+  for (let mask = 0; mask < 2 ** variables.length; mask++) {
+    const bindings: Bindings = {};
+    variables.forEach((v, i) => {
+      bindings[v] = (mask & (1 << (variables.length - 1 - i))) !== 0;
+    });
+    const { result, error } = evaluateBoolean(expression, notation, { bindings });
+    if (error) return { variables: [], rows: [], error: error.message };
+    rows.push({ bindings, result });
+  }
+  return { variables, rows };
+};
@@ -1,19 +1,35 @@
+import { OperatorTable } from '../types';
 
-export const PRECEDENCE: Record<string, number> = {
-  '+': 1,
-  '-': 1,
-  '*': 2,
-  '/': 2,
-  '^': 3
+/**
+ * The classic five operators plus unary minus. Unary minus is written '~'
+ * in postfix/prefix so it can't be confused with binary '-', and binds
+ * tighter than * but looser than ^ (-A^2 = -(A^2)).
+ */
+export const DEFAULT_OPERATORS: OperatorTable = {
+  '+': { symbol: '+', precedence: 1, associativity: 'L', arity: 2, evaluate: (a, b) => a + b },
+  '-': { symbol: '-', precedence: 1, associativity: 'L', arity: 2, evaluate: (a, b) => a - b },
+  '*': { symbol: '*', precedence: 2, associativity: 'L', arity: 2, evaluate: (a, b) => a * b },
+  '/': { symbol: '/', precedence: 2, associativity: 'L', arity: 2, evaluate: (a, b) => a / b },
+  '~': { symbol: '~', precedence: 3, associativity: 'R', arity: 1, infixSymbol: '-', evaluate: a => -a },
+  '^': { symbol: '^', precedence: 4, associativity: 'R', arity: 2, evaluate: (a, b) => Math.pow(a, b) }
 };
 
-export const ASSOCIATIVITY: Record<string, 'L' | 'R'> = {
-  '+': 'L',
-  '-': 'L',
-  '*': 'L',
-  '/': 'L',
-  '^': 'R'
+// Built-in functions. Arity is fixed so postfix/prefix need no argument counts.
+export const FUNCTIONS: Record<string, { arity: number, apply: (...args: number[]) => number }> = {
+  sin: { arity: 1, apply: Math.sin },
+  cos: { arity: 1, apply: Math.cos },
+  tan: { arity: 1, apply: Math.tan },
+  sqrt: { arity: 1, apply: Math.sqrt },
+  abs: { arity: 1, apply: Math.abs },
+  exp: { arity: 1, apply: Math.exp },
+  ln: { arity: 1, apply: Math.log },
+  log: { arity: 1, apply: Math.log10 },
+  floor: { arity: 1, apply: Math.floor },
+  ceil: { arity: 1, apply: Math.ceil },
+  max: { arity: 2, apply: Math.max },
+  min: { arity: 2, apply: Math.min },
+  pow: { arity: 2, apply: Math.pow }
 };
 
-export const isOperator = (c: string) => /^[+\-*/^]$/.test(c);
-export const isOperand = (c: string) => /^[a-zA-Z0-9]$/.test(c);
+export const isFunction = (name: string) => Object.prototype.hasOwnProperty.call(FUNCTIONS, name);
+export const isOperand = (c: string) => !isFunction(c) && /^([a-zA-Z_][a-zA-Z0-9_]*|\d+(\.\d+)?|\.\d+)$/.test(c);
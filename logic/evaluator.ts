@@ -0,0 +1,125 @@
+import { tokenize, tokenizePolish } from './lexer';
+import { validateInfix, validatePostfix, validatePrefix } from './validation';
+import { childrenOf, labelOf, parseInfixTokens, parsePostfixTokens, parsePrefixTokens } from './ast';
+import {
+  Bindings,
+  DomainEvaluationStep,
+  ExpressionError,
+  ExpressionErrorKind,
+  ExpressionType,
+  ExprNode,
+  OperatorDef,
+  OperatorTable,
+} from '../types';
+
+/**
+ * A number system the traced evaluator can run in: truth values,
+ * exact rationals, Java ints... Operations throw StepError when a
+ * step has no result in this system.
+ */
+export interface ValueDomain<T> {
+  operators: OperatorTable;
+  constants?: Record<string, T>; // names that are always bound (true/false)
+  literal: (raw: string) => T;
+  bind: (value: number | boolean, name: string) => T;
+  apply: (def: OperatorDef, args: T[]) => T;
+  call: (name: string, args: T[]) => T;
+  show: (value: T) => string;
+  // Optional remark appended to a step, e.g. "int overflow wraps around"
+  note?: (symbol: string, args: T[], value: T) => string | undefined;
+}
+
+export class StepError extends Error {
+  constructor(message: string, readonly kind: ExpressionErrorKind) {
+    super(message);
+  }
+}
+
+export type DomainEvaluationResult = { steps: DomainEvaluationStep[], result: string, error?: ExpressionError };
+
+/**
+ * Every notation is replayed as a postfix evaluation over its tree (prefix
+ * input is read right to left), with the stack printed by the domain.
+ * A failing step is kept in the trace and reported with its token.
+ */
+export const evaluateInDomain = <T>(
+  expression: string,
+  notation: ExpressionType,
+  domain: ValueDomain<T>,
+  options: { bindings?: Bindings } = {}
+): DomainEvaluationResult => {
+  const table = domain.operators;
+  const constants = domain.constants ?? {};
+  const bindings = options.bindings ?? {};
+  // Validation only checks that a name is bound, not its value
+  const bound: Bindings = { ...Object.fromEntries(Object.keys(constants).map(name => [name, 0])), ...bindings };
+
+  const tokens = notation === 'infix' ? tokenize(expression, { operators: table }) : tokenizePolish(expression, table);
+  const error = notation === 'infix'
+    ? validateInfix(tokens, bound)
+    : notation === 'postfix' ? validatePostfix(tokens, bound) : validatePrefix(tokens, bound);
+  if (error) return { steps: [], result: "", error };
+
+  const ast = notation === 'infix'
+    ? parseInfixTokens(tokens, table)
+    : notation === 'postfix' ? parsePostfixTokens(tokens) : parsePrefixTokens(tokens);
+
+  const steps: DomainEvaluationStep[] = [];
+  const stack: T[] = [];
+  const { show } = domain;
+  const record = (node: ExprNode, action: string, emitted?: number[]) =>
+    steps.push({ token: labelOf(node), tokenIndex: node.tokenIndex, stack: stack.map(show), action, emitted });
+
+  let active = ast;
+  const visit = (node: ExprNode) => {
+    const children = childrenOf(node);
+    (notation === 'prefix' ? [...children].reverse() : children).forEach(visit);
+    active = node;
+
+    if (node.kind === 'literal') {
+      const value = domain.literal(node.raw);
+      stack.push(value);
+      record(node, show(value) === node.raw ? `Push operand ${node.raw}` : `Push operand ${node.raw} as ${show(value)}`);
+      return;
+    }
+    if (node.kind === 'identifier') {
+      const isBound = Object.prototype.hasOwnProperty.call(bindings, node.name);
+      const value = isBound ? domain.bind(bindings[node.name], node.name) : constants[node.name];
+      stack.push(value);
+      record(node, isBound ? `Substitute ${node.name} = ${bindings[node.name]}; Push ${show(value)}` : `Push constant ${show(value)}`);
+      return;
+    }
+
+    // Postfix pops the last argument first, prefix the first
+    const operands = stack.slice(stack.length - children.length);
+    const popped = [...operands].reverse();
+    const args = notation === 'prefix' ? popped : operands;
+    const shown = args.map(show);
+    const computed = node.kind === 'call'
+      ? `${node.callee}(${shown.join(', ')})`
+      : node.kind === 'unary'
+        ? `${table[node.operator].infixSymbol ?? node.operator}${shown[0]}`
+        : `${shown[0]}${node.operator}${shown[1]}`;
+
+    const value = node.kind === 'call' ? domain.call(node.callee, args) : domain.apply(table[node.operator], args);
+    const note = domain.note?.(labelOf(node), args, value);
+    stack.splice(stack.length - children.length);
+    stack.push(value);
+    record(
+      node,
+      `Pop ${popped.map(show).join(', ')}; Compute ${computed}=${show(value)}${note ? ` (${note})` : ''}; Push ${show(value)}`,
+      node.tokenIndex === undefined ? [] : [node.tokenIndex]
+    );
+  };
+
+  try {
+    visit(ast);
+  } catch (e) {
+    if (!(e instanceof StepError)) throw e;
+    // Keep the failing step in the trace, with its operands still on the stack
+    record(active, e.message, []);
+    return { steps, result: "", error: { kind: e.kind, message: e.message, tokenIndex: active.tokenIndex ?? null } };
+  }
+
+  return { steps, result: show(stack[0]) };
+};
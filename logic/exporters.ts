@@ -0,0 +1,167 @@
+import { PREFIX_STAGES } from './algorithms';
+import { DomainEvaluationStep, EvaluationStep, InfixEvaluationStep, OperationType, Step } from '../types';
+
+export type TraceStep = Step | EvaluationStep | InfixEvaluationStep | DomainEvaluationStep;
+
+export const OPERATION_LABELS: Record<OperationType, string> = {
+  infixToPostfix: 'Infix → Postfix',
+  infixToPrefix: 'Infix → Prefix',
+  postfixToInfix: 'Postfix → Infix',
+  postfixToPrefix: 'Postfix → Prefix',
+  prefixToInfix: 'Prefix → Infix',
+  prefixToPostfix: 'Prefix → Postfix',
+  evaluatePostfix: 'Evaluate Postfix',
+  evaluatePrefix: 'Evaluate Prefix',
+  evaluateInfix: 'Evaluate Infix (Two Stacks)',
+};
+
+export interface TraceColumn {
+  header: string;
+  cell: (step: TraceStep) => string;
+  code?: boolean; // tokens and stacks, set in monospace
+  answer?: boolean; // worked out by the student: blank on worksheets
+}
+
+/**
+ * Columns every exporter shares. Conversions have an output column,
+ * two-stack infix evaluation an operator stack.
+ */
+export const traceColumns = (steps: TraceStep[]): TraceColumn[] => {
+  const has = (key: string) => steps.some(step => key in step);
+  return [
+    { header: 'Token', cell: step => step.token, code: true },
+    { header: 'Stack', cell: step => step.stack.join(' '), code: true, answer: true },
+    ...(has('operators')
+      ? [{ header: 'Operators', cell: (step: TraceStep) => (step as InfixEvaluationStep).operators.join(' '), code: true, answer: true }]
+      : []),
+    ...(has('output')
+      ? [{ header: 'Output', cell: (step: TraceStep) => (step as Step).output, code: true, answer: true }]
+      : []),
+    { header: 'Action', cell: step => step.action },
+  ];
+};
+
+// Heading for the first step of each infixToPrefix pass
+const stageHeading = (steps: TraceStep[], i: number): string | null => {
+  const stage = (steps[i] as Step).stage;
+  return stage && stage !== (steps[i - 1] as Step | undefined)?.stage ? PREFIX_STAGES[stage] : null;
+};
+
+/* ---------- Markdown ---------- */
+
+const markdownCell = (text: string, code?: boolean) => {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+  return code && escaped ? `\`${escaped}\`` : escaped;
+};
+
+export const traceToMarkdown = (steps: TraceStep[], title?: string): string => {
+  const columns = traceColumns(steps);
+  const lines = [
+    `| # | ${columns.map(c => c.header).join(' | ')} |`,
+    `| ---: | ${columns.map(() => '---').join(' | ')} |`,
+  ];
+  steps.forEach((step, i) => {
+    const heading = stageHeading(steps, i);
+    if (heading) lines.push(`| | **${heading}** |${' |'.repeat(columns.length - 1)}`);
+    lines.push(`| ${i + 1} | ${columns.map(c => markdownCell(c.cell(step), c.code)).join(' | ')} |`);
+  });
+  return `${title ? `**${title}**\n\n` : ''}${lines.join('\n')}\n`;
+};
+
+/* ---------- LaTeX ---------- */
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  // OT1 text fonts print these as ¡ ¿ —
+  '<': '\\textless{}',
+  '>': '\\textgreater{}',
+  '|': '\\textbar{}',
+};
+
+const latexEscape = (text: string) => text.replace(/[\\{}$&#^_~%<>|]/g, c => LATEX_SPECIALS[c] ?? `\\${c}`);
+
+/**
+ * A bare tabular for lecture notes. Needs no packages; the action column
+ * wraps at 40% of the line width.
+ */
+export const traceToLatex = (steps: TraceStep[], title?: string): string => {
+  const columns = traceColumns(steps);
+  const cell = (column: TraceColumn, step: TraceStep) => {
+    const text = latexEscape(column.cell(step));
+    return column.code ? `\\texttt{${text}}` : text;
+  };
+  const lines = [
+    ...(title ? [`% ${title}`] : []),
+    `\\begin{tabular}{r|${columns.map(c => (c.code ? 'l' : 'p{0.4\\linewidth}')).join('|')}}`,
+    '\\hline',
+    `\\# & ${columns.map(c => `\\textbf{${c.header}}`).join(' & ')} \\\\`,
+    '\\hline',
+  ];
+  steps.forEach((step, i) => {
+    const heading = stageHeading(steps, i);
+    if (heading) lines.push(`\\multicolumn{${columns.length + 1}}{l}{\\textit{${latexEscape(heading)}}} \\\\`);
+    lines.push(`${i + 1} & ${columns.map(c => cell(c, step)).join(' & ')} \\\\`);
+  });
+  lines.push('\\hline', '\\end{tabular}');
+  return `${lines.join('\n')}\n`;
+};
+
+/* ---------- Worksheet ---------- */
+
+const htmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const WORKSHEET_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 18cm; color: #000; }
+  h1 { font-size: 18px; margin-bottom: 4px; }
+  .expression { font-family: monospace; font-size: 20px; margin: 8px 0 16px; }
+  .student { display: flex; gap: 32px; margin-bottom: 16px; font-size: 13px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #000; padding: 6px 8px; text-align: left; font-size: 13px; }
+  td { height: 22px; }
+  td.code { font-family: monospace; font-weight: bold; }
+  tr.stage td { font-style: italic; background: #eee; height: auto; }
+  tr { page-break-inside: avoid; }
+  .answer { margin-top: 20px; font-size: 14px; }
+  @page { margin: 1.5cm; }
+`;
+
+/**
+ * Printable worksheet: the trace's tokens in order with the stack and
+ * output columns left empty. The action column is dropped because it
+ * names what each step pops.
+ */
+export const traceWorksheet = (steps: TraceStep[], title: string, expression: string): string => {
+  const columns = traceColumns(steps).filter(c => c.answer || c.header === 'Token');
+  const rows = steps.map((step, i) => {
+    const heading = stageHeading(steps, i);
+    const cells = columns.map(c => (c.answer ? '<td></td>' : `<td class="code">${htmlEscape(c.cell(step))}</td>`));
+    return [
+      ...(heading ? [`<tr class="stage"><td colspan="${columns.length + 1}">${htmlEscape(heading)}</td></tr>`] : []),
+      `<tr><td>${i + 1}</td>${cells.join('')}</tr>`,
+    ].join('\n');
+  });
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${htmlEscape(title)}</title>
+<style>${WORKSHEET_STYLE}</style>
+</head>
+<body>
+<h1>${htmlEscape(title)}</h1>
+<div class="expression">${htmlEscape(expression)}</div>
+<div class="student"><span>Name: ______________________</span><span>Date: ____________</span></div>
+<table>
+<thead><tr><th>#</th>${columns.map(c => `<th>${c.header}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<p class="answer">Result: ________________________________</p>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,114 @@
+import { binaryNode, needsParens, print } from './ast';
+import { DEFAULT_OPERATORS } from './constants';
+import { ExpressionType, ExprNode, OperatorTable } from '../types';
+
+export type OperandKind = 'variables' | 'numbers';
+
+export interface GeneratorOptions {
+  depth?: number; // levels of operators below the root, defaults to 2
+  operators?: string[]; // binary operator symbols to draw from
+  power?: boolean; // add (or, when false, remove) the right-associative '^'
+  parenDensity?: number; // 0..1: chance of redundant brackets around an infix subexpression
+  operands?: OperandKind;
+  names?: string[]; // variable names to draw from
+  random?: () => number; // defaults to Math.random
+}
+
+// Everything the generator panel edits; an empty seed means unseeded
+export interface GeneratorSettings {
+  depth: number;
+  operators: string[];
+  power: boolean;
+  parenDensity: number;
+  operands: OperandKind;
+  seed: string;
+}
+
+export const DEFAULT_GENERATOR: GeneratorSettings = {
+  depth: 2,
+  operators: ['+', '-', '*', '/'],
+  power: true,
+  parenDensity: 0,
+  operands: 'variables',
+  seed: '',
+};
+
+export const MAX_GENERATOR_DEPTH = 5;
+
+/**
+ * Deterministic PRNG: FNV-1a hash of the seed text, then mulberry32.
+ * The same seed gives the same sequence in every browser.
+ */
+export const seededRandom = (seed: string): (() => number) => {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const leaf = (operands: OperandKind, names: string[], random: () => number): ExprNode => {
+  if (operands === 'variables') return { kind: 'identifier', name: pick(names, random) };
+  const raw = String(1 + Math.floor(random() * 9));
+  return { kind: 'literal', value: Number(raw), raw };
+};
+
+const operatorSet = ({ operators = DEFAULT_GENERATOR.operators, power }: GeneratorOptions) => {
+  const set = operators.filter(op => op !== '^');
+  if (power ?? operators.includes('^')) set.push('^');
+  return set.length ? set : ['+'];
+};
+
+/**
+ * Random binary expression tree. Each level past the first may stop early
+ * at a leaf, so trees of the same depth vary in shape.
+ */
+export const generateTree = (options: GeneratorOptions = {}): ExprNode => {
+  const {
+    depth = DEFAULT_GENERATOR.depth,
+    operands = DEFAULT_GENERATOR.operands,
+    names = ['A', 'B', 'C', 'D', 'E'],
+    random = Math.random,
+  } = options;
+  const operators = operatorSet(options);
+  const grow = (level: number): ExprNode =>
+    level === 0 || (level < depth && random() < 0.3)
+      ? leaf(operands, names, random)
+      : binaryNode(pick(operators, random), grow(level - 1), grow(level - 1));
+  return grow(depth);
+};
+
+// Minimal brackets, plus redundant ones around subexpressions at `density`
+const printInfixWithExtras = (node: ExprNode, table: OperatorTable, density: number, random: () => number): string => {
+  if (node.kind !== 'binary') return print(node, 'infix', { operators: table });
+  const side = (child: ExprNode, which: 'left' | 'right') => {
+    const text = printInfixWithExtras(child, table, density, random);
+    const extra = child.kind === 'binary' && random() < density;
+    return needsParens(child, node, which, table) || extra ? `(${text})` : text;
+  };
+  return `${side(node.left, 'left')}${node.operator}${side(node.right, 'right')}`;
+};
+
+/**
+ * A random valid expression written in `notation`. Operators missing from
+ * `table` are skipped.
+ */
+export const generateExpression = (
+  notation: ExpressionType,
+  options: GeneratorOptions = {},
+  table: OperatorTable = DEFAULT_OPERATORS
+): string => {
+  const random = options.random ?? Math.random;
+  const operators = operatorSet(options).filter(op => table[op]?.arity === 2);
+  const tree = generateTree({ ...options, operators: operators.length ? operators : ['+'], power: undefined, random });
+  return notation === 'infix'
+    ? printInfixWithExtras(tree, table, options.parenDensity ?? 0, random)
+    : print(tree, notation);
+};
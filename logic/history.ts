@@ -0,0 +1,121 @@
+import { OPERATION_LABELS } from './exporters';
+import { HistoryRecord, OperationType } from '../types';
+
+// Unpinned records kept; pinned ones are never evicted
+export const HISTORY_LIMIT = 20;
+
+export const HISTORY_FORMAT = 'expression-lab-history';
+export const HISTORY_VERSION = 1;
+
+// Version 1 export file. Version 0 is a bare array, as stored under dsa_lab_history.
+export interface HistoryExport {
+  format: typeof HISTORY_FORMAT;
+  version: number;
+  exportedAt: number;
+  records: HistoryRecord[];
+}
+
+// Newest first, then the oldest unpinned records beyond the limit are dropped
+const capped = (records: HistoryRecord[]): HistoryRecord[] => {
+  let unpinned = 0;
+  return [...records]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(record => record.pinned || ++unpinned <= HISTORY_LIMIT);
+};
+
+export const addRecord = (history: HistoryRecord[], record: HistoryRecord): HistoryRecord[] =>
+  capped([record, ...history]);
+
+export const updateRecord = (history: HistoryRecord[], id: string, changes: Partial<HistoryRecord>): HistoryRecord[] =>
+  capped(history.map(record => (record.id === id ? { ...record, ...changes } : record)));
+
+export const removeRecord = (history: HistoryRecord[], id: string): HistoryRecord[] =>
+  history.filter(record => record.id !== id);
+
+/**
+ * Pinned records first, each group newest first. The query matches the
+ * input, the label and the operation's name, ignoring case.
+ */
+export const filterHistory = (
+  history: HistoryRecord[],
+  query: string,
+  operation: OperationType | 'all'
+): HistoryRecord[] => {
+  const needle = query.trim().toLowerCase();
+  const matches = (record: HistoryRecord) =>
+    [record.input, record.label ?? '', OPERATION_LABELS[record.operation as OperationType] ?? record.operation]
+      .some(text => text.toLowerCase().includes(needle));
+  return history
+    .filter(record => (operation === 'all' || record.operation === operation) && (!needle || matches(record)))
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+};
+
+export const exportHistory = (history: HistoryRecord[]): string => {
+  const file: HistoryExport = { format: HISTORY_FORMAT, version: HISTORY_VERSION, exportedAt: Date.now(), records: history };
+  return JSON.stringify(file, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Absent or of the given type
+const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isStep = (value: unknown) =>
+  isObject(value) && typeof value.token === 'string' && Array.isArray(value.stack) && typeof value.action === 'string';
+
+const isBindings = (value: unknown) =>
+  isObject(value) && Object.values(value).every(v => typeof v === 'number' || typeof v === 'boolean');
+
+// Every field the history panel and a restore read, so a bad file is refused rather than crashing later
+const isRecord = (value: unknown): value is HistoryRecord =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.timestamp === 'number' &&
+  typeof value.operation === 'string' &&
+  Object.prototype.hasOwnProperty.call(OPERATION_LABELS, value.operation) &&
+  typeof value.input === 'string' &&
+  (typeof value.result === 'string' || typeof value.result === 'number') &&
+  optional(value.label, label => typeof label === 'string') &&
+  optional(value.pinned, pinned => typeof pinned === 'boolean') &&
+  optional(value.mode, mode => mode === 'arithmetic' || mode === 'boolean') &&
+  optional(value.semantics, semantics => semantics === 'float' || semantics === 'exact' || semantics === 'java') &&
+  optional(value.bindings, isBindings) &&
+  isObject(value.data) &&
+  Array.isArray(value.data.steps) &&
+  value.data.steps.every(isStep);
+
+/**
+ * Reads an export (or a bare version 0 array). Files from a newer version
+ * are refused rather than half-read; the first malformed record is reported.
+ */
+export const importHistory = (text: string): { records: HistoryRecord[], error?: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { records: [], error: `Invalid JSON: ${(e as Error).message}` };
+  }
+
+  let records: unknown[];
+  if (Array.isArray(parsed)) {
+    records = parsed;
+  } else if (isObject(parsed) && parsed.format === HISTORY_FORMAT && Array.isArray(parsed.records)) {
+    if (typeof parsed.version !== 'number' || parsed.version > HISTORY_VERSION) {
+      return { records: [], error: `History version ${parsed.version} is newer than this lab supports (${HISTORY_VERSION})` };
+    }
+    records = parsed.records;
+  } else {
+    return { records: [], error: 'Not a history export' };
+  }
+
+  const bad = records.findIndex(record => !isRecord(record));
+  if (bad >= 0) return { records: [], error: `Record ${bad + 1} is not a history entry` };
+  return { records: records as HistoryRecord[] };
+};
+
+// Imported records replace local ones with the same id
+export const mergeHistory = (history: HistoryRecord[], imported: HistoryRecord[]): HistoryRecord[] => {
+  const ids = new Set(imported.map(record => record.id));
+  return capped([...imported, ...history.filter(record => !ids.has(record.id))]);
+};
@@ -0,0 +1,89 @@
+import { evaluateInDomain, StepError, ValueDomain, DomainEvaluationResult } from './evaluator';
+import { Bindings, ExpressionType, OperatorTable } from '../types';
+
+// Two's complement wrap-around, exactly what Java does on int overflow
+const wrap = (n: bigint) => Number(BigInt.asIntN(32, n));
+
+// Untruncated result of + - *, to spot overflow
+const mathematical = (symbol: string, [a, b]: number[]): bigint | undefined => {
+  switch (symbol) {
+    case '+': return BigInt(a) + BigInt(b);
+    case '-': return BigInt(a) - BigInt(b);
+    case '*': return BigInt(a) * BigInt(b);
+    default: return undefined;
+  }
+};
+
+const divisor = (b: number) => {
+  if (b === 0) throw new StepError('ArithmeticException: / by zero', 'division-by-zero');
+  return BigInt(b);
+};
+
+/**
+ * The int stack of the Java code in the Code tab: 32-bit overflow wraps,
+ * / truncates towards zero and dividing by zero throws. Operators the Java
+ * switch has no case for (only + - * / have one) are reported instead of guessed.
+ */
+const applyJava = (symbol: string, args: number[]): number => {
+  const [a, b] = args;
+  switch (symbol) {
+    case '+':
+    case '-':
+    case '*': return wrap(mathematical(symbol, args)!);
+    case '/': return wrap(BigInt(a) / divisor(b));
+    default: throw new StepError(`The Java code in the Code tab has no case for '${symbol}'`, 'unsupported-operation');
+  }
+};
+
+// The Java code reads single characters, so it has no function calls at all
+const callJava = (name: string): number => {
+  throw new StepError(`The Java code in the Code tab cannot call '${name}'`, 'unsupported-operation');
+};
+
+// The Java code pushes `c - '0'` for one character at a time: single digits, no variables
+const literalJava = (raw: string): number => {
+  if (!/^\d$/.test(raw)) throw new StepError(`The Java code in the Code tab reads one digit at a time, so it cannot read '${raw}'`, 'unsupported-operation');
+  return Number(raw);
+};
+
+export const javaDomain = (operators: OperatorTable): ValueDomain<number> => ({
+  operators,
+  literal: literalJava,
+  bind: (_value, name) => {
+    throw new StepError(`The Java code in the Code tab has no variables, so it cannot read '${name}'`, 'unsupported-operation');
+  },
+  apply: (def, args) => applyJava(def.symbol, args),
+  call: callJava,
+  show: String,
+  note: (symbol, args, value) => {
+    const exact = mathematical(symbol, args);
+    return exact !== undefined && exact !== BigInt(value) ? `int overflow: ${exact} wraps to ${value}` : undefined;
+  }
+});
+
+/**
+ * Evaluation as the Java int code would run it. That code sends every
+ * character that is not a digit or bracket to the operator branch, spaces too.
+ */
+export const evaluateJava = (
+  expression: string,
+  notation: ExpressionType,
+  options: { bindings?: Bindings, operators: OperatorTable }
+): DomainEvaluationResult => {
+  if (/\s/.test(expression.trim())) {
+    const message = 'The Java code in the Code tab reads spaces as operators, so it cannot read separated tokens';
+    return { steps: [], result: '', error: { kind: 'unsupported-operation', message, tokenIndex: null } };
+  }
+  return evaluateInDomain(expression, notation, javaDomain(options.operators), options);
+};
+
+/**
+ * Why the Java code would not print `result`, or null when it agrees.
+ * An expression the Java code cannot run at all disagrees too.
+ */
+export const javaDisagreement = (result: string | number, java: DomainEvaluationResult): string | null => {
+  if (java.error?.kind === 'division-by-zero') return `The Java code would throw ${java.error.message} instead of returning ${result}`;
+  if (java.error) return `${java.error.message} (this mode gives ${result})`;
+  if (String(result) === java.result) return null;
+  return `The Java code would print ${java.result}, not ${result}`;
+};
@@ -0,0 +1,134 @@
+import { DEFAULT_OPERATORS, isFunction } from './constants';
+import { OperatorTable } from '../types';
+
+export type TokenType = 'number' | 'identifier' | 'function' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'unknown';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  index: number; // position in the token list
+  start: number; // source offset (inclusive)
+  end: number;   // source offset (exclusive)
+  unary?: boolean; // one-operand operator: '~', or an infix '-'/'+' in operand position
+  symbol?: string; // operator registry key ('~' for a unary '-'); unset for the identity unary '+'
+}
+
+export interface TokenizeOptions {
+  // Treat every letter/digit as its own operand (textbook "AB+" postfix)
+  splitOperands?: boolean;
+  // Read '-'/'+' as unary when no operand precedes them (infix only, on by default)
+  detectUnary?: boolean;
+  operators?: OperatorTable;
+}
+
+const isDigit = (c: string) => c >= '0' && c <= '9';
+
+// Every spelling an operator can have, longest first so '//' wins over '/'
+const operatorSpellings = (operators: OperatorTable): string[] =>
+  [...new Set(Object.values(operators).flatMap(def => [def.symbol, def.infixSymbol ?? def.symbol]))]
+    .sort((a, b) => b.length - a.length);
+const isLetter = (c: string) => /^[a-zA-Z_]$/.test(c);
+
+/**
+ * Lexer: turns an expression string into typed tokens with source positions.
+ * Numbers may carry a decimal part (3.5, .25) and identifiers may span
+ * several characters (rate, x1). Names listed in FUNCTIONS lex as functions.
+ */
+export const tokenize = (expression: string, options: TokenizeOptions = {}): Token[] => {
+  const { splitOperands = false, detectUnary = true, operators = DEFAULT_OPERATORS } = options;
+  const spellings = operatorSpellings(operators);
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // No operand (or closing bracket) to the left means a sign, not a subtraction
+  const inOperandPosition = () => {
+    const prev = tokens[tokens.length - 1];
+    return !prev || prev.type === 'operator' || prev.type === 'lparen' || prev.type === 'comma';
+  };
+
+  const emit = (type: TokenType, start: number, end: number) => {
+    tokens.push({ type, value: expression.slice(start, end), index: tokens.length, start, end });
+  };
+
+  while (i < expression.length) {
+    const c = expression[i];
+    const start = i;
+    const spelling = spellings.find(sp => expression.startsWith(sp, i));
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (isDigit(c) || (!splitOperands && c === '.' && isDigit(expression[i + 1] ?? ''))) {
+      if (splitOperands) {
+        i++;
+      } else {
+        while (isDigit(expression[i] ?? '')) i++;
+        if (expression[i] === '.' && isDigit(expression[i + 1] ?? '')) {
+          i++;
+          while (isDigit(expression[i] ?? '')) i++;
+        }
+      }
+      emit('number', start, i);
+    } else if (isLetter(c)) {
+      i++;
+      if (!splitOperands) {
+        while (isLetter(expression[i] ?? '') || isDigit(expression[i] ?? '')) i++;
+      }
+      emit(isFunction(expression.slice(start, i)) ? 'function' : 'identifier', start, i);
+    } else if (c === '(') {
+      emit('lparen', start, ++i);
+    } else if (c === ')') {
+      emit('rparen', start, ++i);
+    } else if (c === ',') {
+      emit('comma', start, ++i);
+    } else if (spelling) {
+      const text = spelling;
+      const def = operators[text];
+      // A unary operator spelled like a sign in infix: '-' for '~'
+      const signDef = Object.values(operators).find(d => d.arity === 1 && d.infixSymbol === text);
+      const operandPosition = detectUnary && inOperandPosition();
+      i += text.length;
+      emit('operator', start, i);
+      const tok = tokens[tokens.length - 1];
+
+      if (operandPosition && signDef) {
+        tok.unary = true;
+        tok.symbol = signDef.symbol;
+      } else if (operandPosition && text === '+') {
+        tok.unary = true; // identity, no registry entry
+      } else if (def) {
+        tok.unary = def.arity === 1;
+        tok.symbol = text;
+      } else {
+        tok.unary = true;
+        tok.symbol = signDef!.symbol;
+      }
+    } else {
+      emit('unknown', start, ++i);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Postfix and prefix have no operators between operands, so "AB+" is only
+ * readable one character at a time. Whitespace opts into multi-character
+ * operands ("12 3 +"), and so does a lone operand ("12", "1.5"), which is
+ * how a conversion prints one.
+ */
+export const tokenizePolish = (expression: string, operators: OperatorTable = DEFAULT_OPERATORS): Token[] => {
+  const options: TokenizeOptions = { detectUnary: false, operators };
+  const whole = tokenize(expression, options);
+  const lone = whole.length === 1 && (whole[0].type === 'number' || whole[0].type === 'identifier');
+  return lone || /\s/.test(expression.trim()) ? whole : tokenize(expression, { ...options, splitOperands: true });
+};
+
+/**
+ * Join output tokens: textbook single-character expressions stay compact,
+ * anything with a multi-character operand or operator ('//') is space separated.
+ */
+export const joinTokens = (values: string[], multiChar: boolean): string =>
+  values.join(multiChar ? ' ' : '');
+
+export const hasMultiCharToken = (tokens: Token[]): boolean =>
+  tokens.some(t => (t.symbol ?? t.value).length > 1);
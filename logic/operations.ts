@@ -0,0 +1,60 @@
+import {
+  infixToPostfix,
+  infixToPrefix,
+  postfixToInfix,
+  postfixToPrefix,
+  prefixToInfix,
+  prefixToPostfix,
+  evaluatePostfix,
+  evaluatePrefix,
+  evaluateInfix,
+  InfixOutputOptions,
+  EvaluationOptions,
+} from './algorithms';
+import { BOOLEAN_OPERATORS, evaluateBoolean } from './boolean';
+import { evaluateExact } from './rational';
+import { evaluateJava } from './java';
+import { DEFAULT_OPERATORS } from './constants';
+import { AlgorithmResult, ExpressionMode, ExpressionType, NumberSemantics, OperationType } from '../types';
+
+export type OperationOptions = InfixOutputOptions & EvaluationOptions & {
+  mode?: ExpressionMode; // 'boolean' swaps in BOOLEAN_OPERATORS and true/false evaluation
+  semantics?: NumberSemantics; // arithmetic evaluation only, defaults to 'float'
+  decimals?: boolean; // exact results also show their decimal expansion
+};
+
+export const sourceNotation = (op: OperationType): ExpressionType =>
+  op.startsWith('infix') || op === 'evaluateInfix'
+    ? 'infix'
+    : op.startsWith('postfix') || op === 'evaluatePostfix'
+      ? 'postfix'
+      : 'prefix';
+
+export const evaluationFor = (notation: ExpressionType): OperationType =>
+  notation === 'infix' ? 'evaluateInfix' : notation === 'postfix' ? 'evaluatePostfix' : 'evaluatePrefix';
+
+/**
+ * Single dispatch point for the nine operations. Each algorithm only
+ * reads the options that apply to it.
+ */
+export const runOperation = (operation: OperationType, input: string, options: OperationOptions = {}): AlgorithmResult => {
+  if (options.mode === 'boolean') {
+    if (operation.startsWith('evaluate')) return evaluateBoolean(input, sourceNotation(operation), options);
+    options = { ...options, operators: BOOLEAN_OPERATORS };
+  } else if (options.semantics === 'exact' && operation.startsWith('evaluate')) {
+    return evaluateExact(input, sourceNotation(operation), { ...options, operators: options.operators ?? DEFAULT_OPERATORS });
+  } else if (options.semantics === 'java' && operation.startsWith('evaluate')) {
+    return evaluateJava(input, sourceNotation(operation), { ...options, operators: options.operators ?? DEFAULT_OPERATORS });
+  }
+  switch (operation) {
+    case 'infixToPostfix': return infixToPostfix(input, options);
+    case 'infixToPrefix': return infixToPrefix(input, options);
+    case 'postfixToInfix': return postfixToInfix(input, options);
+    case 'postfixToPrefix': return postfixToPrefix(input, options);
+    case 'prefixToInfix': return prefixToInfix(input, options);
+    case 'prefixToPostfix': return prefixToPostfix(input, options);
+    case 'evaluatePostfix': return evaluatePostfix(input, options);
+    case 'evaluatePrefix': return evaluatePrefix(input, options);
+    case 'evaluateInfix': return evaluateInfix(input, options);
+  }
+};
@@ -0,0 +1,77 @@
+import { DEFAULT_OPERATORS } from './constants';
+import { tokenize } from './lexer';
+import { validateInfix } from './validation';
+import { parseInfixTokens, evaluateAst } from './ast';
+import { OperatorDef, OperatorTable } from '../types';
+
+export const truth = (test: boolean) => (test ? 1 : 0);
+
+// Ready-made operators the registry panel can add with one click
+export const OPERATOR_PRESETS: OperatorTable = {
+  '%': { symbol: '%', precedence: 2, associativity: 'L', arity: 2, evaluate: (a, b) => a % b },
+  '//': { symbol: '//', precedence: 2, associativity: 'L', arity: 2, evaluate: (a, b) => Math.floor(a / b) },
+  '<': { symbol: '<', precedence: 0, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a < b) },
+  '>': { symbol: '>', precedence: 0, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a > b) },
+  '<=': { symbol: '<=', precedence: 0, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a <= b) },
+  '>=': { symbol: '>=', precedence: 0, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a >= b) },
+  '==': { symbol: '==', precedence: 0, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a === b) },
+  '!=': { symbol: '!=', precedence: 0, associativity: 'L', arity: 2, logical: true, evaluate: (a, b) => truth(a !== b) }
+};
+
+// Operators with a native implementation; everything else carries a formula
+const BUILT_IN: OperatorTable = { ...DEFAULT_OPERATORS, ...OPERATOR_PRESETS };
+
+/**
+ * Symbols may not contain anything the lexer reads as an operand or a
+ * bracket, and may not collide with an operator already in the table.
+ */
+export const checkOperatorSymbol = (symbol: string, table: OperatorTable): string | null => {
+  if (!symbol) return 'Symbol is empty';
+  if (/[a-zA-Z0-9_.\s(),]/.test(symbol)) return `'${symbol}' may not contain letters, digits, brackets, commas or spaces`;
+  if (table[symbol]) return `'${symbol}' is already defined`;
+  const spelled = Object.values(table).find(def => def.infixSymbol === symbol);
+  if (spelled) return `'${symbol}' is already the infix spelling of '${spelled.symbol}'`;
+  return null;
+};
+
+/**
+ * Turns an arithmetic formula over `a` (and `b` for binary operators),
+ * written with the default operators, into an evaluate function.
+ */
+export const compileFormula = (formula: string, arity: 1 | 2): { evaluate?: OperatorDef['evaluate'], error?: string } => {
+  const tokens = tokenize(formula);
+  const error = validateInfix(tokens, arity === 1 ? { a: 0 } : { a: 0, b: 0 });
+  if (error?.kind === 'unbound-identifier') return { error: `Formula may only use ${arity === 1 ? 'a' : 'a and b'}` };
+  if (error) return { error: `Formula: ${error.message}` };
+  const ast = parseInfixTokens(tokens);
+  return { evaluate: (a, b) => evaluateAst(ast, { a, b }) };
+};
+
+/* ---------- Persistence ---------- */
+
+type StoredOperator = Omit<OperatorDef, 'evaluate'>;
+
+export const serializeOperators = (table: OperatorTable): string =>
+  JSON.stringify(Object.values(table).map(({ evaluate, ...stored }) => stored));
+
+/**
+ * Rebuilds a saved table: built-in symbols get their native evaluate back,
+ * user-defined ones recompile their formula. Unreadable data falls back to
+ * the defaults.
+ */
+export const deserializeOperators = (json: string | null): OperatorTable => {
+  if (!json) return DEFAULT_OPERATORS;
+  try {
+    const table: OperatorTable = {};
+    (JSON.parse(json) as StoredOperator[]).forEach(stored => {
+      const evaluate = stored.formula
+        ? compileFormula(stored.formula, stored.arity).evaluate
+        : BUILT_IN[stored.symbol]?.evaluate;
+      if (evaluate) table[stored.symbol] = { ...stored, evaluate };
+    });
+    return table;
+  } catch (e) {
+    console.error(e);
+    return DEFAULT_OPERATORS;
+  }
+};
@@ -0,0 +1,61 @@
+import { ExpressionMode, NumberSemantics, OperationType, ParenthesesMode, ViewTab } from '../types';
+
+// Everything a shared link restores: the trace, where it is scrubbed to, and its options
+export interface Permalink {
+  operation: OperationType;
+  input: string;
+  step: number; // zero-based
+  tab: ViewTab;
+  mode: ExpressionMode;
+  parens: ParenthesesMode;
+  semantics: NumberSemantics;
+  decimals: boolean;
+  bindings: string; // as typed in the bindings panel, evaluations only
+}
+
+// The run a link replays, without where it is scrubbed to
+export type PermalinkRun = Omit<Permalink, 'step' | 'tab'>;
+
+const OPERATIONS: OperationType[] = [
+  'infixToPostfix', 'infixToPrefix', 'postfixToInfix', 'postfixToPrefix', 'prefixToInfix', 'prefixToPostfix',
+  'evaluatePostfix', 'evaluatePrefix', 'evaluateInfix',
+];
+const TABS: ViewTab[] = ['visualizer', 'tree', 'table', 'truth', 'verify', 'code'];
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * `#op=infixToPostfix&in=A%2BB*C&step=4&tab=table`. Options at their
+ * defaults are left out; the step is one-based as on screen.
+ */
+export const encodePermalink = (link: Permalink): string => {
+  const params = new URLSearchParams({ op: link.operation, in: link.input, step: String(link.step + 1) });
+  if (link.tab !== 'visualizer') params.set('tab', link.tab);
+  if (link.mode !== 'arithmetic') params.set('mode', link.mode);
+  if (link.parens !== 'minimal') params.set('parens', link.parens);
+  if (link.semantics !== 'float') params.set('sem', link.semantics);
+  if (link.decimals) params.set('dec', '1');
+  if (link.bindings && link.operation.startsWith('evaluate')) params.set('bind', link.bindings);
+  return `#${params}`;
+};
+
+// Null unless the hash names an operation and an input; anything else falls back to its default
+export const decodePermalink = (hash: string): Permalink | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const operation = params.get('op');
+  const input = params.get('in');
+  if (!OPERATIONS.includes(operation as OperationType) || !input) return null;
+  const step = parseInt(params.get('step') ?? '', 10);
+  return {
+    operation: operation as OperationType,
+    input,
+    step: step > 0 ? step - 1 : 0,
+    tab: oneOf(params.get('tab'), TABS, 'visualizer'),
+    mode: oneOf<ExpressionMode>(params.get('mode'), ['arithmetic', 'boolean'], 'arithmetic'),
+    parens: oneOf<ParenthesesMode>(params.get('parens'), ['full', 'minimal'], 'minimal'),
+    semantics: oneOf<NumberSemantics>(params.get('sem'), ['float', 'exact', 'java'], 'float'),
+    decimals: params.get('dec') === '1',
+    bindings: params.get('bind') ?? '',
+  };
+};
@@ -0,0 +1,61 @@
+import { Stack } from './stack';
+import { Token } from './lexer';
+import { OperatorTable, StepExplanation } from '../types';
+
+// Registry key of an operator token, or the raw text for brackets and functions
+export const keyOf = (tok: Token) => tok.symbol ?? tok.value;
+
+// How equal precedence is settled: whether the stack top pops, and why
+export interface TieRule {
+  pops: boolean;
+  reason: string;
+}
+
+/**
+ * Equal precedence read left to right: A-B-C pops the first '-' before
+ * pushing the second. Read right to left (C-B-A) it must not, or the
+ * reversed output groups A-(B-C); right-associative operators flip the same way.
+ */
+export const tieRule = (tok: Token, table: OperatorTable, reversed = false): TieRule => {
+  const left = table[keyOf(tok)].associativity === 'L';
+  const side = left ? 'left' : 'right';
+  if (!reversed) {
+    return left
+      ? { pops: true, reason: `'${keyOf(tok)}' is left-associative, so the earlier one goes first` }
+      : { pops: false, reason: `'${keyOf(tok)}' is right-associative, so the later one goes first` };
+  }
+  return { pops: !left, reason: `read right to left, a ${side}-associative tie ${left ? 'stays' : 'pops'}` };
+};
+
+/**
+ * The precedence loop shared by Shunting-Yard, two-stack evaluation and the
+ * infix parser: `pop` runs while the stack top outranks `incoming`. Each
+ * comparison is kept as an explanation, including the one that ended the loop.
+ */
+export const popWhileOutranked = (
+  stack: Stack<Token>,
+  incoming: Token,
+  table: OperatorTable,
+  tie: TieRule,
+  pop: () => void
+): StepExplanation => {
+  const popped: StepExplanation['popped'] = [];
+  const name = keyOf(incoming);
+  const prec = table[name].precedence;
+  for (;;) {
+    const top = stack.peek();
+    if (!top) return { popped, stopped: 'The stack is empty' };
+    if (top.type === 'lparen') return { popped, stopped: `'(' is on top; nothing pops past a bracket` };
+    const other = keyOf(top);
+    const topPrec = table[other].precedence;
+    if (topPrec < prec) {
+      return { popped, stopped: `'${other}' binds looser than '${name}' (precedence ${topPrec} < ${prec})` };
+    }
+    const reason = topPrec > prec
+      ? `'${other}' binds tighter than '${name}' (precedence ${topPrec} > ${prec})`
+      : `'${other}' and '${name}' share precedence ${prec}; ${tie.reason}`;
+    if (topPrec === prec && !tie.pops) return { popped, stopped: reason };
+    popped.push({ operator: other, reason });
+    pop();
+  }
+};
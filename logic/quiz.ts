@@ -0,0 +1,144 @@
+import { generateTree } from './generator';
+import { parse, print, sameTree } from './ast';
+import { tokenize, tokenizePolish } from './lexer';
+import { conversionOf, NOTATIONS } from './verify';
+import { evaluationFor } from './operations';
+import { DEFAULT_OPERATORS } from './constants';
+import { AlgorithmResult, ExpressionType, ExprNode, OperationType, OperatorTable, QuizScore, Step } from '../types';
+
+export type QuizTarget = ExpressionType | 'value';
+
+export interface QuizQuestion {
+  expression: string;
+  source: ExpressionType;
+  target: QuizTarget;
+  operation: OperationType; // the algorithm that produces the expected answer
+}
+
+export interface QuizVerdict {
+  correct: boolean;
+  expected: string;
+  message: string;
+  divergeStep: number | null; // first step of the trace the answer disagrees with
+}
+
+export const EMPTY_SCORE: QuizScore = { attempted: 0, correct: 0, streak: 0, best: 0 };
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Conversion questions use letters; value questions use digits with
+ * + - * only, so every answer is a whole number. Operators missing from
+ * `table` are skipped, since the answer is graded with it.
+ */
+export const makeQuestion = (random: () => number = Math.random, table: OperatorTable = DEFAULT_OPERATORS): QuizQuestion => {
+  const target = pick<QuizTarget>([...NOTATIONS, 'value'], random);
+  const source = pick(NOTATIONS.filter(n => n !== target), random);
+  const available = (symbols: string[]) => {
+    const kept = symbols.filter(op => table[op]?.arity === 2);
+    return kept.length ? kept : ['+'];
+  };
+  const tree = target === 'value'
+    ? generateTree({ depth: 2, operators: available(['+', '-', '*']), operands: 'numbers', random })
+    : generateTree({ depth: 3, operators: available(['+', '-', '*', '/', '^']), random });
+  return {
+    expression: print(tree, source, { parens: 'minimal', operators: table }),
+    source,
+    target,
+    operation: target === 'value' ? evaluationFor(source) : conversionOf(source, target),
+  };
+};
+
+export const describeQuestion = ({ source, target }: QuizQuestion) =>
+  target === 'value' ? `Evaluate this ${source} expression` : `Convert this ${source} expression to ${target}`;
+
+const tokensOf = (text: string, notation: ExpressionType, table: OperatorTable) =>
+  (notation === 'infix' ? tokenize(text, { operators: table }) : tokenizePolish(text, table))
+    .filter(t => t.type !== 'lparen' && t.type !== 'rparen')
+    .map(t => t.symbol ?? t.value);
+
+const startsWith = (whole: string[], part: string[]) => part.every((t, i) => whole[i] === t);
+const containsRun = (whole: string[], part: string[]) =>
+  whole.some((_, i) => startsWith(whole.slice(i), part));
+
+const subtrees = (node: ExprNode): ExprNode[] => {
+  switch (node.kind) {
+    case 'unary': return [node, ...subtrees(node.operand)];
+    case 'binary': return [node, ...subtrees(node.left), ...subtrees(node.right)];
+    case 'call': return [node, ...node.args.flatMap(subtrees)];
+    default: return [node];
+  }
+};
+
+/**
+ * Shunting-Yard traces grow the answer left to right, so a step diverges
+ * once its output stops being a prefix of the answer (for infixToPrefix,
+ * in the final reversal pass). Stack-of-subtrees traces build pieces, so a
+ * step diverges when its subtree is missing from the answer.
+ */
+const firstDivergence = (
+  question: QuizQuestion,
+  steps: Step[],
+  answer: string,
+  table: OperatorTable
+): number | null => {
+  const target = question.target as ExpressionType;
+  const answerTokens = tokensOf(answer, target, table);
+  const answerTree = parse(answer, target, table).ast;
+
+  const index = steps.findIndex(step => {
+    if (question.source === 'infix') {
+      if (step.stage && step.stage !== 'reverse-output') return false;
+      return !startsWith(answerTokens, tokensOf(step.output, target, table));
+    }
+    const piece = parse(step.output, target, table).ast;
+    if (answerTree && piece) return !subtrees(answerTree).some(node => sameTree(node, piece));
+    return !containsRun(answerTokens, tokensOf(step.output, target, table));
+  });
+  return index >= 0 ? index : null;
+};
+
+/**
+ * Checks an answer by structure, not text: whitespace and redundant
+ * brackets don't matter, but A+B is not accepted for B+A.
+ */
+export const checkAnswer = (
+  question: QuizQuestion,
+  answer: string,
+  result: AlgorithmResult,
+  table: OperatorTable = DEFAULT_OPERATORS
+): QuizVerdict => {
+  const expected = String(result.result);
+
+  if (question.target === 'value') {
+    const value = Number(answer.trim());
+    const correct = answer.trim() !== '' && Math.abs(value - Number(expected)) < 1e-9;
+    return {
+      correct,
+      expected,
+      message: correct ? 'Correct!' : `Not quite: the value is ${expected}`,
+      divergeStep: null,
+    };
+  }
+
+  const reference = parse(question.expression, question.source, table).ast!;
+  const { ast, error } = parse(answer, question.target, table);
+  if (ast && sameTree(ast, reference)) return { correct: true, expected, message: 'Correct!', divergeStep: null };
+
+  return {
+    correct: false,
+    expected,
+    message: error ? `Your answer is not valid ${question.target}: ${error.message}` : `Not quite: expected ${expected}`,
+    divergeStep: firstDivergence(question, result.steps as Step[], answer, table),
+  };
+};
+
+export const scoreAnswer = (score: QuizScore, correct: boolean): QuizScore => {
+  const streak = correct ? score.streak + 1 : 0;
+  return {
+    attempted: score.attempted + 1,
+    correct: score.correct + (correct ? 1 : 0),
+    streak,
+    best: Math.max(score.best, streak),
+  };
+};
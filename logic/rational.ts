@@ -0,0 +1,158 @@
+import { evaluateInDomain, StepError, ValueDomain, DomainEvaluationResult } from './evaluator';
+import { Bindings, ExpressionType, OperatorTable } from '../types';
+
+// Always reduced, with a positive denominator
+export interface Rational {
+  num: bigint;
+  den: bigint;
+}
+
+const abs = (n: bigint) => (n < 0n ? -n : n);
+const gcd = (a: bigint, b: bigint): bigint => (b === 0n ? abs(a) : gcd(b, a % b));
+
+export const rational = (num: bigint, den: bigint = 1n): Rational => {
+  if (den === 0n) throw new StepError('Division by zero', 'division-by-zero');
+  const sign = den < 0n ? -1n : 1n;
+  const g = gcd(num, den) || 1n;
+  return { num: (sign * num) / g, den: abs(den) / g };
+};
+
+/**
+ * Exact value of a decimal literal or JS number: "0.1" is 1/10, not
+ * 0.1000000000000000055...
+ */
+export const parseRational = (text: string): Rational => {
+  const match = text.match(/^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match) throw new StepError(`'${text}' has no exact value`, 'unsupported-operation');
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  const shift = BigInt(fraction.length) - BigInt(exponent);
+  const digits = BigInt(`${sign}${whole || '0'}${fraction}`);
+  return shift >= 0n ? rational(digits, 10n ** shift) : rational(digits * 10n ** -shift);
+};
+
+const add = (a: Rational, b: Rational) => rational(a.num * b.den + b.num * a.den, a.den * b.den);
+const sub = (a: Rational, b: Rational) => rational(a.num * b.den - b.num * a.den, a.den * b.den);
+const mul = (a: Rational, b: Rational) => rational(a.num * b.num, a.den * b.den);
+const div = (a: Rational, b: Rational) => rational(a.num * b.den, a.den * b.num);
+const compare = (a: Rational, b: Rational) => {
+  const diff = a.num * b.den - b.num * a.den;
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+};
+
+// BigInt division truncates; floor rounds towards -infinity
+const floor = (a: Rational) => rational(a.num / a.den - (a.num < 0n && a.num % a.den !== 0n ? 1n : 0n));
+const ceil = (a: Rational) => rational(-floor(rational(-a.num, a.den)).num);
+const trunc = (a: Rational) => rational(a.num / a.den);
+
+const MAX_EXPONENT = 10000n;
+// About 30,000 digits: larger powers take seconds to expand and to print on every step
+const MAX_RESULT_BITS = 100000n;
+
+// Upper bound on the number of bits in |n|, good enough for a size guard
+const bitLength = (n: bigint) => BigInt(abs(n).toString(16).length * 4);
+
+const pow = (base: Rational, exponent: Rational): Rational => {
+  if (exponent.den !== 1n) {
+    throw new StepError(`Exponent ${formatRational(exponent)} is not an integer, so the result is not rational`, 'unsupported-operation');
+  }
+  const e = exponent.num;
+  if (abs(e) > MAX_EXPONENT) throw new StepError(`Exponent ${e} is too large to expand exactly`, 'unsupported-operation');
+  const size = bitLength(abs(base.num) > base.den ? base.num : base.den);
+  if (size * abs(e) > MAX_RESULT_BITS) {
+    throw new StepError(`Raising a ${size}-bit value to the power ${e} is too large to expand exactly`, 'unsupported-operation');
+  }
+  return e >= 0n
+    ? rational(base.num ** e, base.den ** e)
+    : rational(base.den ** -e, base.num ** -e);
+};
+
+/**
+ * Decimal expansion with the repeating block in brackets: 1/3 = 0.(3),
+ * 1/6 = 0.1(6). Expansions longer than `maxDigits` are cut with "…".
+ */
+export const toDecimal = ({ num, den }: Rational, maxDigits = 24): string => {
+  const sign = num < 0n ? '-' : '';
+  let remainder = abs(num) % den;
+  const whole = `${sign}${abs(num) / den}`;
+  if (remainder === 0n) return whole;
+
+  const digits: string[] = [];
+  const seen = new Map<bigint, number>();
+  while (remainder !== 0n && !seen.has(remainder) && digits.length < maxDigits) {
+    seen.set(remainder, digits.length);
+    remainder *= 10n;
+    digits.push(String(remainder / den));
+    remainder %= den;
+  }
+  if (remainder === 0n) return `${whole}.${digits.join('')}`;
+  if (!seen.has(remainder)) return `${whole}.${digits.join('')}…`;
+  const start = seen.get(remainder)!;
+  return `${whole}.${digits.slice(0, start).join('')}(${digits.slice(start).join('')})`;
+};
+
+export const formatRational = (value: Rational, decimals = false): string => {
+  const fraction = value.den === 1n ? String(value.num) : `${value.num}/${value.den}`;
+  return decimals && value.den !== 1n ? `${fraction} = ${toDecimal(value)}` : fraction;
+};
+
+const truthOf = (test: boolean) => rational(test ? 1n : 0n);
+const checkDivisor = (b: Rational) => {
+  if (b.num === 0n) throw new StepError('Division by zero', 'division-by-zero');
+};
+
+/**
+ * Exact counterparts of the registry's built-in operators. User-defined
+ * operators have no exact implementation.
+ */
+const applyExact = (symbol: string, [a, b]: Rational[]): Rational => {
+  switch (symbol) {
+    case '+': return add(a, b);
+    case '-': return sub(a, b);
+    case '*': return mul(a, b);
+    case '/': checkDivisor(b); return div(a, b);
+    case '//': checkDivisor(b); return floor(div(a, b));
+    // Same sign rule as JS %: the result takes the sign of the dividend
+    case '%': checkDivisor(b); return sub(a, mul(b, trunc(div(a, b))));
+    case '^': return pow(a, b);
+    case '~': return rational(-a.num, a.den);
+    case '<': return truthOf(compare(a, b) < 0);
+    case '>': return truthOf(compare(a, b) > 0);
+    case '<=': return truthOf(compare(a, b) <= 0);
+    case '>=': return truthOf(compare(a, b) >= 0);
+    case '==': return truthOf(compare(a, b) === 0);
+    case '!=': return truthOf(compare(a, b) !== 0);
+    default: throw new StepError(`Operator '${symbol}' has no exact implementation`, 'unsupported-operation');
+  }
+};
+
+const callExact = (name: string, [a, b]: Rational[]): Rational => {
+  switch (name) {
+    case 'abs': return rational(abs(a.num), a.den);
+    case 'floor': return floor(a);
+    case 'ceil': return ceil(a);
+    case 'max': return compare(a, b) >= 0 ? a : b;
+    case 'min': return compare(a, b) <= 0 ? a : b;
+    case 'pow': return pow(a, b);
+    default: throw new StepError(`'${name}' has no exact (rational) result`, 'unsupported-operation');
+  }
+};
+
+export const exactDomain = (operators: OperatorTable, decimals = false): ValueDomain<Rational> => ({
+  operators,
+  literal: parseRational,
+  bind: value => typeof value === 'boolean' ? truthOf(value) : parseRational(String(value)),
+  apply: (def, args) => applyExact(def.symbol, args),
+  call: callExact,
+  show: value => formatRational(value, decimals)
+});
+
+/**
+ * Evaluation with exact rational arithmetic over BigInt: 1/3*3 is exactly 1
+ * and 2^100 keeps every digit. Division by zero stops at the failing step.
+ */
+export const evaluateExact = (
+  expression: string,
+  notation: ExpressionType,
+  options: { bindings?: Bindings, operators: OperatorTable, decimals?: boolean }
+): DomainEvaluationResult =>
+  evaluateInDomain(expression, notation, exactDomain(options.operators, options.decimals), options);
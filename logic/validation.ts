@@ -0,0 +1,138 @@
+import { FUNCTIONS, isOperand } from './constants';
+import { Token } from './lexer';
+import { Bindings, ExpressionError, ExpressionErrorKind } from '../types';
+
+const fail = (kind: ExpressionErrorKind, message: string, tokenIndex: number | null): ExpressionError =>
+  ({ kind, message, tokenIndex });
+
+const checkCharacters = (tokens: Token[]): ExpressionError | null => {
+  if (tokens.length === 0) return fail('empty-expression', 'Expression is empty', null);
+  const bad = tokens.find(t => t.type === 'unknown');
+  return bad ? fail('unknown-character', `Unknown character '${bad.value}' at position ${bad.start + 1}`, bad.index) : null;
+};
+
+// Evaluation only: an identifier operand needs a value in `bindings`
+const checkBound = (tok: Token, bindings?: Bindings): ExpressionError | null =>
+  bindings && tok.type === 'identifier' && !Object.prototype.hasOwnProperty.call(bindings, tok.value)
+    ? fail('unbound-identifier', `Variable '${tok.value}' has no value; bind it (e.g. ${tok.value}=3)`, tok.index)
+    : null;
+
+/**
+ * Infix grammar check: operands and operators must alternate, every
+ * bracket needs a partner and function calls get exactly their arity.
+ */
+export const validateInfix = (tokens: Token[], bindings?: Bindings): ExpressionError | null => {
+  const charError = checkCharacters(tokens);
+  if (charError) return charError;
+
+  // Each open bracket remembers the function it belongs to and the commas seen so far
+  const openParens: { tok: Token, fn?: Token, commas: number }[] = [];
+  let expectOperand = true;
+
+  for (const tok of tokens) {
+    const next = tokens[tok.index + 1];
+    const prev = tokens[tok.index - 1];
+
+    if (isOperand(tok.value)) {
+      if (next?.type === 'lparen' && tok.type === 'identifier') {
+        return fail('unknown-function', `Unknown function '${tok.value}'`, tok.index);
+      }
+      if (!expectOperand) return fail('unexpected-token', `Operand '${tok.value}' needs an operator before it`, tok.index);
+      const unboundError = checkBound(tok, bindings);
+      if (unboundError) return unboundError;
+      expectOperand = false;
+    } else if (tok.type === 'function') {
+      if (!expectOperand) return fail('unexpected-token', `Function '${tok.value}' needs an operator before it`, tok.index);
+      if (next?.type !== 'lparen') return fail('unexpected-token', `Function '${tok.value}' must be followed by '('`, tok.index);
+    } else if (tok.type === 'lparen') {
+      if (!expectOperand) return fail('unexpected-token', `'(' needs an operator before it`, tok.index);
+      openParens.push({ tok, fn: prev?.type === 'function' ? prev : undefined, commas: 0 });
+    } else if (tok.type === 'comma') {
+      const open = openParens[openParens.length - 1];
+      if (!open?.fn) return fail('unexpected-token', `',' may only separate function arguments`, tok.index);
+      if (expectOperand) return fail('operand-underflow', `Missing argument before ','`, tok.index);
+      open.commas++;
+      expectOperand = true;
+    } else if (tok.type === 'rparen') {
+      const open = openParens.pop();
+      if (!open) return fail('unbalanced-paren', `')' has no matching '('`, tok.index);
+      if (open.fn) {
+        const arity = FUNCTIONS[open.fn.value].arity;
+        const given = prev === open.tok ? 0 : open.commas + 1;
+        if (given !== arity) {
+          return fail('arity-mismatch', `'${open.fn.value}' takes ${arity} argument(s) but was given ${given}`, open.fn.index);
+        }
+      }
+      if (expectOperand) return fail('operand-underflow', `Missing operand before ')'`, tok.index);
+    } else if (tok.unary) {
+      if (!expectOperand) return fail('unexpected-token', `Unary '${tok.value}' cannot follow an operand`, tok.index);
+    } else if (tok.type === 'operator') {
+      if (expectOperand) return fail('operand-underflow', `Operator '${tok.value}' is missing its left operand`, tok.index);
+      expectOperand = true;
+    }
+  }
+
+  if (openParens.length > 0) {
+    const open = openParens[openParens.length - 1].tok;
+    return fail('unbalanced-paren', `'(' is never closed`, open.index);
+  }
+  if (expectOperand) {
+    const last = tokens[tokens.length - 1];
+    return fail('operand-underflow', `Operator '${last.value}' is missing its right operand`, last.index);
+  }
+  return null;
+};
+
+/**
+ * Simulates the operand stack of a postfix/prefix scan without building
+ * anything. Each entry remembers the token index where its subexpression starts.
+ */
+const validatePolish = (tokens: Token[], reverse: boolean, bindings?: Bindings): ExpressionError | null => {
+  const charError = checkCharacters(tokens);
+  if (charError) return charError;
+
+  const stack: number[] = [];
+  const ordered = reverse ? [...tokens].reverse() : tokens;
+
+  for (const tok of ordered) {
+    if (tok.type === 'lparen' || tok.type === 'rparen' || tok.type === 'comma') {
+      return fail('unexpected-token', `'${tok.value}' is not used in ${reverse ? 'prefix' : 'postfix'} notation`, tok.index);
+    }
+    if (tok.type === 'function') {
+      const { arity } = FUNCTIONS[tok.value];
+      if (stack.length < arity) {
+        return fail('operand-underflow', `Function '${tok.value}' needs ${arity} argument(s) but the stack holds ${stack.length}`, tok.index);
+      }
+      stack.splice(stack.length - arity, arity, tok.index);
+      continue;
+    }
+    if (isOperand(tok.value)) {
+      const unboundError = checkBound(tok, bindings);
+      if (unboundError) return unboundError;
+      stack.push(tok.index);
+    } else if (tok.type === 'operator' && tok.unary) {
+      if (stack.length < 1) {
+        return fail('operand-underflow', `Unary '${tok.value}' needs 1 operand but the stack is empty`, tok.index);
+      }
+      stack.pop();
+      stack.push(tok.index);
+    } else if (tok.type === 'operator') {
+      if (stack.length < 2) {
+        return fail('operand-underflow', `Operator '${tok.value}' needs 2 operands but the stack holds ${stack.length}`, tok.index);
+      }
+      stack.pop();
+      stack.pop();
+      stack.push(tok.index);
+    }
+  }
+
+  if (stack.length > 1) {
+    const extra = stack[reverse ? stack.length - 2 : 1];
+    return fail('leftover-operands', `${stack.length - 1} operand(s) left over with no operator`, extra);
+  }
+  return null;
+};
+
+// Pass `bindings` when the expression is about to be evaluated: every identifier then needs a value
+export const validatePostfix = (tokens: Token[], bindings?: Bindings) => validatePolish(tokens, false, bindings);
+export const validatePrefix = (tokens: Token[], bindings?: Bindings) => validatePolish(tokens, true, bindings);
@@ -0,0 +1,122 @@
+import { runOperation, OperationOptions } from './operations';
+import { parse, sameTree, variablesOf, evaluateAst } from './ast';
+import { BOOLEAN_OPERATORS } from './boolean';
+import { DEFAULT_OPERATORS } from './constants';
+import { Bindings, ExpressionError, ExpressionType, ExprNode, OperationType, OperatorTable } from '../types';
+
+export const NOTATIONS: ExpressionType[] = ['infix', 'postfix', 'prefix'];
+
+export const conversionOf = (from: ExpressionType, to: ExpressionType): OperationType =>
+  `${from}To${to[0].toUpperCase()}${to.slice(1)}` as OperationType;
+
+export interface EquivalenceCheck {
+  sameTree: boolean;
+  sameValues: boolean;
+  // First assignment the values disagree on, or why the text did not parse
+  counterexample?: Bindings;
+  error?: string;
+}
+
+export interface ConversionCheck extends EquivalenceCheck {
+  from: ExpressionType;
+  to: ExpressionType;
+  input: string;
+  output: string;
+}
+
+export interface RoundTrip extends EquivalenceCheck {
+  path: ExpressionType[];
+  outputs: string[]; // one per hop
+}
+
+export interface VerifyReport {
+  source: ExpressionType;
+  forms: Record<ExpressionType, string>; // the input in every notation
+  conversions: ConversionCheck[];
+  roundTrips: RoundTrip[];
+  trials: number;
+  error?: ExpressionError;
+}
+
+export const VERIFY_TRIALS = 25;
+
+// Small integers keep powers finite; 0 is included so division by zero is exercised
+const randomBindings = (names: string[]): Bindings =>
+  Object.fromEntries(names.map(name => [name, Math.floor(Math.random() * 19) - 9]));
+
+const sameValue = (a: number, b: number) =>
+  Object.is(a, b) || (Number.isNaN(a) && Number.isNaN(b)) || Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+/**
+ * Compares `text` (in `notation`) with the reference tree, structurally and
+ * by evaluating both on the same random assignments.
+ */
+export const checkEquivalent = (
+  reference: ExprNode,
+  text: string,
+  notation: ExpressionType,
+  table: OperatorTable,
+  trials = VERIFY_TRIALS
+): EquivalenceCheck => {
+  const { ast, error } = parse(text, notation, table);
+  if (!ast) return { sameTree: false, sameValues: false, error: error?.message ?? 'Could not parse' };
+
+  const names = [...new Set([...variablesOf(reference), ...variablesOf(ast)])];
+  for (let i = 0; i < trials; i++) {
+    const bindings = randomBindings(names);
+    if (!sameValue(evaluateAst(reference, bindings, table), evaluateAst(ast, bindings, table))) {
+      return { sameTree: sameTree(reference, ast), sameValues: false, counterexample: bindings };
+    }
+  }
+  return { sameTree: sameTree(reference, ast), sameValues: true };
+};
+
+/**
+ * Runs the six converters on the expression and on each other's outputs,
+ * plus the two three-hop round trips back to the source notation. Every
+ * result must match the source's tree and values.
+ */
+export const verifyConversions = (
+  expression: string,
+  source: ExpressionType,
+  options: OperationOptions = {}
+): VerifyReport => {
+  const table = options.mode === 'boolean' ? BOOLEAN_OPERATORS : options.operators ?? DEFAULT_OPERATORS;
+  const forms = { [source]: expression } as Record<ExpressionType, string>;
+  const { ast: reference, error } = parse(expression, source, table);
+  if (!reference) return { source, forms, conversions: [], roundTrips: [], trials: 0, error };
+
+  const run = (from: ExpressionType, to: ExpressionType, input: string) => {
+    const { result, error } = runOperation(conversionOf(from, to), input, options);
+    return error ? { output: '', error: error.message } : { output: String(result) };
+  };
+  const others = NOTATIONS.filter(n => n !== source);
+  others.forEach(n => {
+    forms[n] = run(source, n, expression).output;
+  });
+
+  const conversions = NOTATIONS.flatMap(from => NOTATIONS.filter(to => to !== from).map((to): ConversionCheck => {
+    const input = forms[from];
+    const { output, error } = run(from, to, input);
+    return error
+      ? { from, to, input, output, sameTree: false, sameValues: false, error }
+      : { from, to, input, output, ...checkEquivalent(reference, output, to, table) };
+  }));
+
+  const roundTrips = [others, [...others].reverse()].map((via): RoundTrip => {
+    const path = [source, ...via, source];
+    const outputs: string[] = [];
+    let text = expression;
+    for (let i = 1; i < path.length; i++) {
+      const { output, error } = run(path[i - 1], path[i], text);
+      if (error) return { path, outputs, sameTree: false, sameValues: false, error };
+      outputs.push(output);
+      text = output;
+    }
+    return { path, outputs, ...checkEquivalent(reference, text, source, table) };
+  });
+
+  return { source, forms, conversions, roundTrips, trials: VERIFY_TRIALS };
+};
+
+export const passed = (check: EquivalenceCheck) => check.sameTree && check.sameValues;
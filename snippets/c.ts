@@ -0,0 +1,277 @@
+import { OperationType } from "../types";
+
+// Array-backed stacks; strings built by join() are never freed, for brevity
+export const C: Record<OperationType, string> = {
+  infixToPostfix: `void solve(const char *exp, char *result) {
+    char stack[MAX];
+    int top = -1, n = 0;
+
+    for (int i = 0; exp[i]; i++) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            result[n++] = c; @@operand
+        }
+        else if (c == '(') {
+            stack[++top] = c; @@open
+        }
+        else if (c == ')') {
+            while (top >= 0 && stack[top] != '(') { @@close
+                result[n++] = stack[top--]; @@close
+            }
+            top--; @@close
+        }
+        else {
+            // Ties pop only for left-associative operators, so A^B^C keeps A^(B^C)
+            while (top >= 0 && (precedence(stack[top]) > precedence(c) || @@pop
+                    (precedence(stack[top]) == precedence(c) && c != '^'))) { @@pop
+                result[n++] = stack[top--]; @@pop
+            }
+            stack[++top] = c; @@pop @@push
+        }
+    }
+
+    while (top >= 0) { @@drain
+        result[n++] = stack[top--]; @@drain
+    }
+    result[n] = '\\0';
+}
+
+int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+        case '^': return 3;
+    }
+    return -1;
+}`,
+  infixToPrefix: `void solve(const char *exp, char *result) {
+    char reversed[MAX], stack[MAX];
+    int len = strlen(exp), top = -1, n = 0;
+
+    // Pass 1: Reverse the expression, swapping '(' and ')'
+    for (int i = 0; i < len; i++) { @@reverse
+        char c = exp[len - 1 - i]; @@reverse
+        reversed[i] = c == '(' ? ')' : c == ')' ? '(' : c; @@reverse
+    }
+
+    // Pass 2: Shunting-Yard on the reversed expression
+    for (int i = 0; i < len; i++) {
+        char c = reversed[i];
+
+        if (isalnum(c)) {
+            result[n++] = c; @@operand
+        }
+        else if (c == '(') {
+            stack[++top] = c; @@open
+        }
+        else if (c == ')') {
+            while (stack[top] != '(') { @@close
+                result[n++] = stack[top--]; @@close
+            }
+            top--; @@close
+        }
+        else {
+            // Read backwards, ties pop only for right-associative operators
+            while (top >= 0 && stack[top] != '(' && @@pop
+                    (precedence(stack[top]) > precedence(c) || @@pop
+                     (precedence(stack[top]) == precedence(c) && c == '^'))) { @@pop
+                result[n++] = stack[top--]; @@pop
+            }
+            stack[++top] = c; @@pop @@push
+        }
+    }
+    while (top >= 0) { @@drain
+        result[n++] = stack[top--]; @@drain
+    }
+    result[n] = '\\0';
+
+    // Pass 3: Reverse the output to get prefix
+    for (int i = 0; i < n / 2; i++) { @@final
+        char t = result[i]; result[i] = result[n - 1 - i]; result[n - 1 - i] = t; @@final
+    }
+}
+
+int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+        case '^': return 3;
+    }
+    return -1;
+}`,
+  postfixToInfix: `// join(fmt, ...) formats into a new heap string, like asprintf
+char *solve(const char *exp) {
+    char *stack[MAX];
+    int top = -1;
+
+    for (int i = 0; exp[i]; i++) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            stack[++top] = join("%c", c); @@operand
+        } else {
+            char *op2 = stack[top--]; @@combine
+            char *op1 = stack[top--]; @@combine
+            stack[++top] = join("(%s%c%s)", op1, c, op2); @@combine
+        }
+    }
+    return stack[top];
+}`,
+  postfixToPrefix: `// join(fmt, ...) formats into a new heap string, like asprintf
+char *solve(const char *exp) {
+    char *stack[MAX];
+    int top = -1;
+
+    for (int i = 0; exp[i]; i++) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            stack[++top] = join("%c", c); @@operand
+        } else {
+            char *op2 = stack[top--]; @@combine
+            char *op1 = stack[top--]; @@combine
+            stack[++top] = join("%c%s%s", c, op1, op2); @@combine
+        }
+    }
+    return stack[top];
+}`,
+  prefixToInfix: `// join(fmt, ...) formats into a new heap string, like asprintf
+char *solve(const char *exp) {
+    char *stack[MAX];
+    int top = -1;
+
+    // Read from right to left
+    for (int i = strlen(exp) - 1; i >= 0; i--) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            stack[++top] = join("%c", c); @@operand
+        } else {
+            char *op1 = stack[top--]; @@combine
+            char *op2 = stack[top--]; @@combine
+            stack[++top] = join("(%s%c%s)", op1, c, op2); @@combine
+        }
+    }
+    return stack[top];
+}`,
+  prefixToPostfix: `// join(fmt, ...) formats into a new heap string, like asprintf
+char *solve(const char *exp) {
+    char *stack[MAX];
+    int top = -1;
+
+    // Read from right to left
+    for (int i = strlen(exp) - 1; i >= 0; i--) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            stack[++top] = join("%c", c); @@operand
+        } else {
+            char *op1 = stack[top--]; @@combine
+            char *op2 = stack[top--]; @@combine
+            stack[++top] = join("%s%s%c", op1, op2, c); @@combine
+        }
+    }
+    return stack[top];
+}`,
+  evaluatePostfix: `int solve(const char *exp) {
+    int stack[MAX];
+    int top = -1;
+
+    for (int i = 0; exp[i]; i++) {
+        char c = exp[i];
+
+        if (isdigit(c)) {
+            stack[++top] = c - '0'; @@operand
+        } else {
+            int val2 = stack[top--]; @@combine
+            int val1 = stack[top--]; @@combine
+
+            switch (c) { @@combine
+                case '+': stack[++top] = val1 + val2; break; @@combine
+                case '-': stack[++top] = val1 - val2; break; @@combine
+                case '*': stack[++top] = val1 * val2; break; @@combine
+                case '/': stack[++top] = val1 / val2; break; @@combine
+            }
+        }
+    }
+    return stack[top];
+}`,
+  evaluatePrefix: `int solve(const char *exp) {
+    int stack[MAX];
+    int top = -1;
+
+    // Read from right to left
+    for (int i = strlen(exp) - 1; i >= 0; i--) {
+        char c = exp[i];
+
+        if (isdigit(c)) {
+            stack[++top] = c - '0'; @@operand
+        } else {
+            int val1 = stack[top--]; @@combine
+            int val2 = stack[top--]; @@combine
+
+            switch (c) { @@combine
+                case '+': stack[++top] = val1 + val2; break; @@combine
+                case '-': stack[++top] = val1 - val2; break; @@combine
+                case '*': stack[++top] = val1 * val2; break; @@combine
+                case '/': stack[++top] = val1 / val2; break; @@combine
+            }
+        }
+    }
+    return stack[top];
+}`,
+  evaluateInfix: `int values[MAX], vtop = -1;
+char ops[MAX];
+int otop = -1;
+
+int solve(const char *exp) {
+    for (int i = 0; exp[i]; i++) {
+        char c = exp[i];
+
+        if (isdigit(c)) {
+            values[++vtop] = c - '0'; @@operand
+        }
+        else if (c == '(') {
+            ops[++otop] = c; @@open
+        }
+        else if (c == ')') {
+            while (ops[otop] != '(') { @@close
+                apply(ops[otop--]); @@close
+            }
+            otop--; @@close
+        }
+        else {
+            while (otop >= 0 && ops[otop] != '(' @@pop
+                    && precedence(c) <= precedence(ops[otop])) { @@pop
+                apply(ops[otop--]); @@pop
+            }
+            ops[++otop] = c; @@pop @@push
+        }
+    }
+
+    while (otop >= 0) { @@drain
+        apply(ops[otop--]); @@drain
+    }
+    return values[vtop];
+}
+
+void apply(char op) {
+    int val2 = values[vtop--]; @@close @@pop @@drain @@combine
+    int val1 = values[vtop--]; @@close @@pop @@drain @@combine
+    switch (op) {
+        case '+': values[++vtop] = val1 + val2; break;
+        case '-': values[++vtop] = val1 - val2; break;
+        case '*': values[++vtop] = val1 * val2; break;
+        case '/': values[++vtop] = val1 / val2; break;
+    }
+}
+
+int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+    }
+    return -1;
+}`
+};
@@ -0,0 +1,251 @@
+import { OperationType } from "../types";
+
+export const CPP: Record<OperationType, string> = {
+  infixToPostfix: `string solve(const string& exp) {
+    string result;
+    stack<char> st;
+
+    for (char c : exp) {
+        if (isalnum(c)) {
+            result += c; @@operand
+        }
+        else if (c == '(') {
+            st.push(c); @@open
+        }
+        else if (c == ')') {
+            while (!st.empty() && st.top() != '(') { @@close
+                result += st.top(); st.pop(); @@close
+            }
+            st.pop(); @@close
+        }
+        else {
+            // Ties pop only for left-associative operators, so A^B^C keeps A^(B^C)
+            while (!st.empty() && (precedence(st.top()) > precedence(c) || @@pop
+                    (precedence(st.top()) == precedence(c) && c != '^'))) { @@pop
+                result += st.top(); st.pop(); @@pop
+            }
+            st.push(c); @@pop @@push
+        }
+    }
+
+    while (!st.empty()) { @@drain
+        result += st.top(); st.pop(); @@drain
+    }
+    return result;
+}
+
+int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+        case '^': return 3;
+    }
+    return -1;
+}`,
+  infixToPrefix: `string solve(string exp) {
+    // Pass 1: Reverse the expression, swapping '(' and ')'
+    reverse(exp.begin(), exp.end()); @@reverse
+    for (char& c : exp) { @@reverse
+        if (c == '(') c = ')'; @@reverse
+        else if (c == ')') c = '('; @@reverse
+    }
+
+    // Pass 2: Shunting-Yard on the reversed expression
+    string result;
+    stack<char> st;
+    for (char c : exp) {
+        if (isalnum(c)) {
+            result += c; @@operand
+        }
+        else if (c == '(') {
+            st.push(c); @@open
+        }
+        else if (c == ')') {
+            while (st.top() != '(') { @@close
+                result += st.top(); st.pop(); @@close
+            }
+            st.pop(); @@close
+        }
+        else {
+            // Read backwards, ties pop only for right-associative operators
+            while (!st.empty() && st.top() != '(' && @@pop
+                    (precedence(st.top()) > precedence(c) || @@pop
+                     (precedence(st.top()) == precedence(c) && c == '^'))) { @@pop
+                result += st.top(); st.pop(); @@pop
+            }
+            st.push(c); @@pop @@push
+        }
+    }
+    while (!st.empty()) { @@drain
+        result += st.top(); st.pop(); @@drain
+    }
+
+    // Pass 3: Reverse the output to get prefix
+    reverse(result.begin(), result.end()); @@final
+    return result; @@final
+}
+
+int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+        case '^': return 3;
+    }
+    return -1;
+}`,
+  postfixToInfix: `string solve(const string& exp) {
+    stack<string> st;
+
+    for (char c : exp) {
+        if (isalnum(c)) {
+            st.push(string(1, c)); @@operand
+        } else {
+            string op2 = st.top(); st.pop(); @@combine
+            string op1 = st.top(); st.pop(); @@combine
+            st.push("(" + op1 + c + op2 + ")"); @@combine
+        }
+    }
+    return st.top();
+}`,
+  postfixToPrefix: `string solve(const string& exp) {
+    stack<string> st;
+
+    for (char c : exp) {
+        if (isalnum(c)) {
+            st.push(string(1, c)); @@operand
+        } else {
+            string op2 = st.top(); st.pop(); @@combine
+            string op1 = st.top(); st.pop(); @@combine
+            st.push(c + op1 + op2); @@combine
+        }
+    }
+    return st.top();
+}`,
+  prefixToInfix: `string solve(const string& exp) {
+    stack<string> st;
+
+    // Read from right to left
+    for (int i = exp.size() - 1; i >= 0; i--) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            st.push(string(1, c)); @@operand
+        } else {
+            string op1 = st.top(); st.pop(); @@combine
+            string op2 = st.top(); st.pop(); @@combine
+            st.push("(" + op1 + c + op2 + ")"); @@combine
+        }
+    }
+    return st.top();
+}`,
+  prefixToPostfix: `string solve(const string& exp) {
+    stack<string> st;
+
+    // Read from right to left
+    for (int i = exp.size() - 1; i >= 0; i--) {
+        char c = exp[i];
+
+        if (isalnum(c)) {
+            st.push(string(1, c)); @@operand
+        } else {
+            string op1 = st.top(); st.pop(); @@combine
+            string op2 = st.top(); st.pop(); @@combine
+            st.push(op1 + op2 + c); @@combine
+        }
+    }
+    return st.top();
+}`,
+  evaluatePostfix: `int solve(const string& exp) {
+    stack<int> st;
+
+    for (char c : exp) {
+        if (isdigit(c)) {
+            st.push(c - '0'); @@operand
+        } else {
+            int val2 = st.top(); st.pop(); @@combine
+            int val1 = st.top(); st.pop(); @@combine
+
+            switch (c) { @@combine
+                case '+': st.push(val1 + val2); break; @@combine
+                case '-': st.push(val1 - val2); break; @@combine
+                case '*': st.push(val1 * val2); break; @@combine
+                case '/': st.push(val1 / val2); break; @@combine
+            }
+        }
+    }
+    return st.top();
+}`,
+  evaluatePrefix: `int solve(const string& exp) {
+    stack<int> st;
+
+    // Read from right to left
+    for (int i = exp.size() - 1; i >= 0; i--) {
+        char c = exp[i];
+
+        if (isdigit(c)) {
+            st.push(c - '0'); @@operand
+        } else {
+            int val1 = st.top(); st.pop(); @@combine
+            int val2 = st.top(); st.pop(); @@combine
+
+            switch (c) { @@combine
+                case '+': st.push(val1 + val2); break; @@combine
+                case '-': st.push(val1 - val2); break; @@combine
+                case '*': st.push(val1 * val2); break; @@combine
+                case '/': st.push(val1 / val2); break; @@combine
+            }
+        }
+    }
+    return st.top();
+}`,
+  evaluateInfix: `int solve(const string& exp) {
+    stack<int> values;
+    stack<char> ops;
+
+    for (char c : exp) {
+        if (isdigit(c)) {
+            values.push(c - '0'); @@operand
+        }
+        else if (c == '(') {
+            ops.push(c); @@open
+        }
+        else if (c == ')') {
+            while (ops.top() != '(') { @@close
+                apply(values, ops.top()); ops.pop(); @@close
+            }
+            ops.pop(); @@close
+        }
+        else {
+            while (!ops.empty() && ops.top() != '(' @@pop
+                    && precedence(c) <= precedence(ops.top())) { @@pop
+                apply(values, ops.top()); ops.pop(); @@pop
+            }
+            ops.push(c); @@pop @@push
+        }
+    }
+
+    while (!ops.empty()) { @@drain
+        apply(values, ops.top()); ops.pop(); @@drain
+    }
+    return values.top();
+}
+
+void apply(stack<int>& values, char op) {
+    int val2 = values.top(); values.pop(); @@close @@pop @@drain @@combine
+    int val1 = values.top(); values.pop(); @@close @@pop @@drain @@combine
+    switch (op) {
+        case '+': values.push(val1 + val2); break;
+        case '-': values.push(val1 - val2); break;
+        case '*': values.push(val1 * val2); break;
+        case '/': values.push(val1 / val2); break;
+    }
+}
+
+int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+    }
+    return -1;
+}`
+};
@@ -0,0 +1,81 @@
+import { JAVA } from "./java";
+import { PYTHON } from "./python";
+import { CPP } from "./cpp";
+import { JAVASCRIPT } from "./javascript";
+import { C } from "./c";
+import { sourceNotation } from "../logic/operations";
+import { Token } from "../logic/lexer";
+import { OperationType, PrefixStage } from "../types";
+
+export type CodeLanguage = 'java' | 'python' | 'cpp' | 'javascript' | 'c';
+
+export const LANGUAGES: Record<CodeLanguage, string> = {
+  java: 'Java',
+  python: 'Python',
+  cpp: 'C++',
+  javascript: 'JavaScript',
+  c: 'C',
+};
+
+const SOURCES: Record<CodeLanguage, Record<OperationType, string>> = {
+  java: JAVA,
+  python: PYTHON,
+  cpp: CPP,
+  javascript: JAVASCRIPT,
+  c: C,
+};
+
+/**
+ * What a trace step is doing, used to light up the matching code lines.
+ * Snippet lines are tagged with trailing "@@phase" markers.
+ */
+export type CodePhase = 'operand' | 'open' | 'close' | 'pop' | 'push' | 'drain' | 'combine' | 'reverse' | 'final';
+
+export interface CodeListing {
+  lines: string[];
+  phases: CodePhase[][]; // per line, the phases that execute it
+}
+
+export const codeListing = (language: CodeLanguage, operation: OperationType): CodeListing => {
+  const header = language === 'python'
+    ? [`# Educational Implementation of ${operation}`, `# Time: O(n) | Space: O(n)`]
+    : [`/**`, ` * Educational Implementation of ${operation}`, ` * Time: O(n) | Space: O(n)`, ` */`];
+  const lines: string[] = [...header];
+  const phases: CodePhase[][] = header.map(() => []);
+
+  SOURCES[language][operation].split('\n').forEach(line => {
+    const [code, ...markers] = line.split(' @@');
+    lines.push(code);
+    phases.push(markers as CodePhase[]);
+  });
+  return { lines, phases };
+};
+
+/**
+ * Phase of a trace step. `token` is the lexed input token the step reads,
+ * when it reads one; operator steps of the infix scanners pop when they
+ * emitted something, otherwise they only push.
+ */
+export const stepPhase = (
+  step: { token: string, emitted?: number[], operators?: string[], output?: string, stage?: PrefixStage },
+  operation: OperationType,
+  token?: Token
+): CodePhase => {
+  if (step.stage === 'reverse-input') return 'reverse';
+  if (step.stage === 'reverse-output') return 'final';
+  if (step.token === 'EOF') return 'drain';
+  // infixToPrefix scans the reversed input, where the brackets are swapped
+  const reversed = operation === 'infixToPrefix';
+  switch (token?.type) {
+    case 'number':
+    case 'identifier': return 'operand';
+    case 'function': return 'open';
+    case 'lparen': return reversed ? 'close' : 'open';
+    case 'rparen': return reversed ? 'open' : 'close';
+    case 'comma': return 'close';
+  }
+  // Evaluations in the other number systems replay the tree in postfix order
+  const scanning = sourceNotation(operation) === 'infix' && (step.operators !== undefined || step.output !== undefined);
+  if (!scanning) return 'combine';
+  return step.emitted?.length ? 'pop' : 'push';
+};
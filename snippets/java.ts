@@ -0,0 +1,264 @@
+import { OperationType } from "../types";
+
+export const JAVA: Record<OperationType, string> = {
+  infixToPostfix: `public static String solve(String exp) {
+    String result = "";
+    Stack<Character> stack = new Stack<>();
+
+    for (int i = 0; i < exp.length(); i++) {
+        char c = exp.charAt(i);
+
+        if (Character.isLetterOrDigit(c)) {
+            result += c; @@operand
+        }
+        else if (c == '(') {
+            stack.push(c); @@open
+        }
+        else if (c == ')') {
+            while (!stack.isEmpty() && stack.peek() != '(') { @@close
+                result += stack.pop(); @@close
+            }
+            stack.pop(); @@close
+        }
+        else {
+            // Ties pop only for left-associative operators, so A^B^C keeps A^(B^C)
+            while (!stack.isEmpty() && (precedence(stack.peek()) > precedence(c) || @@pop
+                    (precedence(stack.peek()) == precedence(c) && c != '^'))) { @@pop
+                result += stack.pop(); @@pop
+            }
+            stack.push(c); @@pop @@push
+        }
+    }
+
+    while (!stack.isEmpty()) { @@drain
+        result += stack.pop(); @@drain
+    }
+    return result;
+}
+
+static int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+        case '^': return 3;
+    }
+    return -1;
+}`,
+  infixToPrefix: `public static String solve(String exp) {
+    // Pass 1: Reverse the expression, swapping '(' and ')'
+    StringBuilder reversed = new StringBuilder(); @@reverse
+    for (int i = exp.length() - 1; i >= 0; i--) { @@reverse
+        char c = exp.charAt(i); @@reverse
+        reversed.append(c == '(' ? ')' : c == ')' ? '(' : c); @@reverse
+    }
+
+    // Pass 2: Shunting-Yard on the reversed expression
+    String result = "";
+    Stack<Character> stack = new Stack<>();
+    for (char c : reversed.toString().toCharArray()) {
+        if (Character.isLetterOrDigit(c)) {
+            result += c; @@operand
+        }
+        else if (c == '(') {
+            stack.push(c); @@open
+        }
+        else if (c == ')') {
+            while (stack.peek() != '(') { @@close
+                result += stack.pop(); @@close
+            }
+            stack.pop(); @@close
+        }
+        else {
+            // Read backwards, ties pop only for right-associative operators
+            while (!stack.isEmpty() && stack.peek() != '(' && @@pop
+                    (precedence(stack.peek()) > precedence(c) || @@pop
+                     (precedence(stack.peek()) == precedence(c) && c == '^'))) { @@pop
+                result += stack.pop(); @@pop
+            }
+            stack.push(c); @@pop @@push
+        }
+    }
+    while (!stack.isEmpty()) { @@drain
+        result += stack.pop(); @@drain
+    }
+
+    // Pass 3: Reverse the output to get prefix
+    return new StringBuilder(result).reverse().toString(); @@final
+}
+
+static int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+        case '^': return 3;
+    }
+    return -1;
+}`,
+  postfixToInfix: `public static String solve(String exp) {
+    Stack<String> stack = new Stack<>();
+
+    for (int i = 0; i < exp.length(); i++) {
+        char c = exp.charAt(i);
+
+        if (Character.isLetterOrDigit(c)) {
+            stack.push(c + ""); @@operand
+        } else {
+            String op2 = stack.pop(); @@combine
+            String op1 = stack.pop(); @@combine
+            String temp = "(" + op1 + c + op2 + ")"; @@combine
+            stack.push(temp); @@combine
+        }
+    }
+    return stack.pop();
+}`,
+  postfixToPrefix: `public static String solve(String exp) {
+    Stack<String> stack = new Stack<>();
+
+    for (int i = 0; i < exp.length(); i++) {
+        char c = exp.charAt(i);
+
+        if (Character.isLetterOrDigit(c)) {
+            stack.push(c + ""); @@operand
+        } else {
+            String op2 = stack.pop(); @@combine
+            String op1 = stack.pop(); @@combine
+            String temp = c + op1 + op2; @@combine
+            stack.push(temp); @@combine
+        }
+    }
+    return stack.pop();
+}`,
+  prefixToInfix: `public static String solve(String exp) {
+    Stack<String> stack = new Stack<>();
+
+    // Read from right to left
+    for (int i = exp.length() - 1; i >= 0; i--) {
+        char c = exp.charAt(i);
+
+        if (Character.isLetterOrDigit(c)) {
+            stack.push(c + ""); @@operand
+        } else {
+            String op1 = stack.pop(); @@combine
+            String op2 = stack.pop(); @@combine
+            String temp = "(" + op1 + c + op2 + ")"; @@combine
+            stack.push(temp); @@combine
+        }
+    }
+    return stack.pop();
+}`,
+  prefixToPostfix: `public static String solve(String exp) {
+    Stack<String> stack = new Stack<>();
+
+    // Read from right to left
+    for (int i = exp.length() - 1; i >= 0; i--) {
+        char c = exp.charAt(i);
+
+        if (Character.isLetterOrDigit(c)) {
+            stack.push(c + ""); @@operand
+        } else {
+            String op1 = stack.pop(); @@combine
+            String op2 = stack.pop(); @@combine
+            String temp = op1 + op2 + c; @@combine
+            stack.push(temp); @@combine
+        }
+    }
+    return stack.pop();
+}`,
+  evaluatePostfix: `public static int solve(String exp) {
+    Stack<Integer> stack = new Stack<>();
+
+    for (int i = 0; i < exp.length(); i++) {
+        char c = exp.charAt(i);
+
+        if (Character.isDigit(c)) {
+            stack.push(c - '0'); @@operand
+        } else {
+            int val2 = stack.pop(); @@combine
+            int val1 = stack.pop(); @@combine
+
+            switch(c) { @@combine
+                case '+': stack.push(val1 + val2); break; @@combine
+                case '-': stack.push(val1 - val2); break; @@combine
+                case '*': stack.push(val1 * val2); break; @@combine
+                case '/': stack.push(val1 / val2); break; @@combine
+            }
+        }
+    }
+    return stack.pop();
+}`,
+  evaluatePrefix: `public static int solve(String exp) {
+    Stack<Integer> stack = new Stack<>();
+
+    // Read from right to left
+    for (int i = exp.length() - 1; i >= 0; i--) {
+        char c = exp.charAt(i);
+
+        if (Character.isDigit(c)) {
+            stack.push(c - '0'); @@operand
+        } else {
+            int val1 = stack.pop(); @@combine
+            int val2 = stack.pop(); @@combine
+
+            switch(c) { @@combine
+                case '+': stack.push(val1 + val2); break; @@combine
+                case '-': stack.push(val1 - val2); break; @@combine
+                case '*': stack.push(val1 * val2); break; @@combine
+                case '/': stack.push(val1 / val2); break; @@combine
+            }
+        }
+    }
+    return stack.pop();
+}`,
+  evaluateInfix: `public static int solve(String exp) {
+    Stack<Integer> values = new Stack<>();
+    Stack<Character> ops = new Stack<>();
+
+    for (int i = 0; i < exp.length(); i++) {
+        char c = exp.charAt(i);
+
+        if (Character.isDigit(c)) {
+            values.push(c - '0'); @@operand
+        }
+        else if (c == '(') {
+            ops.push(c); @@open
+        }
+        else if (c == ')') {
+            while (ops.peek() != '(') { @@close
+                apply(values, ops.pop()); @@close
+            }
+            ops.pop(); @@close
+        }
+        else {
+            while (!ops.isEmpty() && ops.peek() != '(' @@pop
+                    && precedence(c) <= precedence(ops.peek())) { @@pop
+                apply(values, ops.pop()); @@pop
+            }
+            ops.push(c); @@pop @@push
+        }
+    }
+
+    while (!ops.isEmpty()) { @@drain
+        apply(values, ops.pop()); @@drain
+    }
+    return values.pop();
+}
+
+static void apply(Stack<Integer> values, char op) {
+    int val2 = values.pop(); @@close @@pop @@drain @@combine
+    int val1 = values.pop(); @@close @@pop @@drain @@combine
+    switch(op) {
+        case '+': values.push(val1 + val2); break;
+        case '-': values.push(val1 - val2); break;
+        case '*': values.push(val1 * val2); break;
+        case '/': values.push(val1 / val2); break;
+    }
+}
+
+static int precedence(char op) {
+    switch (op) {
+        case '+': case '-': return 1;
+        case '*': case '/': return 2;
+    }
+    return -1;
+}`
+};
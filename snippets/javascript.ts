@@ -0,0 +1,216 @@
+import { OperationType } from "../types";
+
+export const JAVASCRIPT: Record<OperationType, string> = {
+  infixToPostfix: `function solve(exp) {
+  let result = "";
+  const stack = [];
+
+  for (const c of exp) {
+    if (/[A-Za-z0-9]/.test(c)) {
+      result += c; @@operand
+    } else if (c === '(') {
+      stack.push(c); @@open
+    } else if (c === ')') {
+      while (stack.length && stack.at(-1) !== '(') { @@close
+        result += stack.pop(); @@close
+      }
+      stack.pop(); @@close
+    } else {
+      // Ties pop only for left-associative operators, so A^B^C keeps A^(B^C)
+      while (stack.length && (precedence(stack.at(-1)) > precedence(c) || @@pop
+          (precedence(stack.at(-1)) === precedence(c) && c !== '^'))) { @@pop
+        result += stack.pop(); @@pop
+      }
+      stack.push(c); @@pop @@push
+    }
+  }
+
+  while (stack.length) { @@drain
+    result += stack.pop(); @@drain
+  }
+  return result;
+}
+
+const precedence = (op) => ({ '+': 1, '-': 1, '*': 2, '/': 2, '^': 3 })[op] ?? -1;`,
+  infixToPrefix: `function solve(exp) {
+  // Pass 1: Reverse the expression, swapping '(' and ')'
+  const swap = { '(': ')', ')': '(' }; @@reverse
+  const reversed = [...exp].reverse().map(c => swap[c] ?? c); @@reverse
+
+  // Pass 2: Shunting-Yard on the reversed expression
+  let result = "";
+  const stack = [];
+  for (const c of reversed) {
+    if (/[A-Za-z0-9]/.test(c)) {
+      result += c; @@operand
+    } else if (c === '(') {
+      stack.push(c); @@open
+    } else if (c === ')') {
+      while (stack.at(-1) !== '(') { @@close
+        result += stack.pop(); @@close
+      }
+      stack.pop(); @@close
+    } else {
+      // Read backwards, ties pop only for right-associative operators
+      while (stack.length && stack.at(-1) !== '(' && @@pop
+          (precedence(stack.at(-1)) > precedence(c) || @@pop
+           (precedence(stack.at(-1)) === precedence(c) && c === '^'))) { @@pop
+        result += stack.pop(); @@pop
+      }
+      stack.push(c); @@pop @@push
+    }
+  }
+  while (stack.length) { @@drain
+    result += stack.pop(); @@drain
+  }
+
+  // Pass 3: Reverse the output to get prefix
+  return [...result].reverse().join(""); @@final
+}
+
+const precedence = (op) => ({ '+': 1, '-': 1, '*': 2, '/': 2, '^': 3 })[op] ?? -1;`,
+  postfixToInfix: `function solve(exp) {
+  const stack = [];
+
+  for (const c of exp) {
+    if (/[A-Za-z0-9]/.test(c)) {
+      stack.push(c); @@operand
+    } else {
+      const op2 = stack.pop(); @@combine
+      const op1 = stack.pop(); @@combine
+      stack.push("(" + op1 + c + op2 + ")"); @@combine
+    }
+  }
+  return stack.pop();
+}`,
+  postfixToPrefix: `function solve(exp) {
+  const stack = [];
+
+  for (const c of exp) {
+    if (/[A-Za-z0-9]/.test(c)) {
+      stack.push(c); @@operand
+    } else {
+      const op2 = stack.pop(); @@combine
+      const op1 = stack.pop(); @@combine
+      stack.push(c + op1 + op2); @@combine
+    }
+  }
+  return stack.pop();
+}`,
+  prefixToInfix: `function solve(exp) {
+  const stack = [];
+
+  // Read from right to left
+  for (const c of [...exp].reverse()) {
+    if (/[A-Za-z0-9]/.test(c)) {
+      stack.push(c); @@operand
+    } else {
+      const op1 = stack.pop(); @@combine
+      const op2 = stack.pop(); @@combine
+      stack.push("(" + op1 + c + op2 + ")"); @@combine
+    }
+  }
+  return stack.pop();
+}`,
+  prefixToPostfix: `function solve(exp) {
+  const stack = [];
+
+  // Read from right to left
+  for (const c of [...exp].reverse()) {
+    if (/[A-Za-z0-9]/.test(c)) {
+      stack.push(c); @@operand
+    } else {
+      const op1 = stack.pop(); @@combine
+      const op2 = stack.pop(); @@combine
+      stack.push(op1 + op2 + c); @@combine
+    }
+  }
+  return stack.pop();
+}`,
+  evaluatePostfix: `function solve(exp) {
+  const stack = [];
+
+  for (const c of exp) {
+    if (/[0-9]/.test(c)) {
+      stack.push(Number(c)); @@operand
+    } else {
+      const val2 = stack.pop(); @@combine
+      const val1 = stack.pop(); @@combine
+      stack.push(OPS[c](val1, val2)); @@combine
+    }
+  }
+  return stack.pop();
+}
+
+const OPS = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+};`,
+  evaluatePrefix: `function solve(exp) {
+  const stack = [];
+
+  // Read from right to left
+  for (const c of [...exp].reverse()) {
+    if (/[0-9]/.test(c)) {
+      stack.push(Number(c)); @@operand
+    } else {
+      const val1 = stack.pop(); @@combine
+      const val2 = stack.pop(); @@combine
+      stack.push(OPS[c](val1, val2)); @@combine
+    }
+  }
+  return stack.pop();
+}
+
+const OPS = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+};`,
+  evaluateInfix: `function solve(exp) {
+  const values = [];
+  const ops = [];
+
+  for (const c of exp) {
+    if (/[0-9]/.test(c)) {
+      values.push(Number(c)); @@operand
+    } else if (c === '(') {
+      ops.push(c); @@open
+    } else if (c === ')') {
+      while (ops.at(-1) !== '(') { @@close
+        apply(values, ops.pop()); @@close
+      }
+      ops.pop(); @@close
+    } else {
+      while (ops.length && ops.at(-1) !== '(' @@pop
+          && precedence(c) <= precedence(ops.at(-1))) { @@pop
+        apply(values, ops.pop()); @@pop
+      }
+      ops.push(c); @@pop @@push
+    }
+  }
+
+  while (ops.length) { @@drain
+    apply(values, ops.pop()); @@drain
+  }
+  return values.pop();
+}
+
+function apply(values, op) {
+  const val2 = values.pop(); @@close @@pop @@drain @@combine
+  const val1 = values.pop(); @@close @@pop @@drain @@combine
+  values.push(OPS[op](val1, val2));
+}
+
+const precedence = (op) => ({ '+': 1, '-': 1, '*': 2, '/': 2 })[op] ?? -1;
+
+const OPS = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+};`
+};
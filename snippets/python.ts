@@ -0,0 +1,181 @@
+import { OperationType } from "../types";
+
+export const PYTHON: Record<OperationType, string> = {
+  infixToPostfix: `def solve(exp):
+    result = ""
+    stack = []
+
+    for c in exp:
+        if c.isalnum():
+            result += c @@operand
+        elif c == '(':
+            stack.append(c) @@open
+        elif c == ')':
+            while stack and stack[-1] != '(': @@close
+                result += stack.pop() @@close
+            stack.pop() @@close
+        else:
+            # Ties pop only for left-associative operators, so A^B^C keeps A^(B^C)
+            while stack and (precedence(stack[-1]) > precedence(c) or @@pop
+                    (precedence(stack[-1]) == precedence(c) and c != '^')): @@pop
+                result += stack.pop() @@pop
+            stack.append(c) @@pop @@push
+
+    while stack: @@drain
+        result += stack.pop() @@drain
+    return result
+
+def precedence(op):
+    return {'+': 1, '-': 1, '*': 2, '/': 2, '^': 3}.get(op, -1)`,
+  infixToPrefix: `def solve(exp):
+    # Pass 1: Reverse the expression, swapping '(' and ')'
+    swap = {'(': ')', ')': '('} @@reverse
+    reversed_exp = "".join(swap.get(c, c) for c in reversed(exp)) @@reverse
+
+    # Pass 2: Shunting-Yard on the reversed expression
+    result = ""
+    stack = []
+    for c in reversed_exp:
+        if c.isalnum():
+            result += c @@operand
+        elif c == '(':
+            stack.append(c) @@open
+        elif c == ')':
+            while stack[-1] != '(': @@close
+                result += stack.pop() @@close
+            stack.pop() @@close
+        else:
+            # Read backwards, ties pop only for right-associative operators
+            while stack and stack[-1] != '(' and ( @@pop
+                    precedence(stack[-1]) > precedence(c) or @@pop
+                    (precedence(stack[-1]) == precedence(c) and c == '^')): @@pop
+                result += stack.pop() @@pop
+            stack.append(c) @@pop @@push
+    while stack: @@drain
+        result += stack.pop() @@drain
+
+    # Pass 3: Reverse the output to get prefix
+    return result[::-1] @@final
+
+def precedence(op):
+    return {'+': 1, '-': 1, '*': 2, '/': 2, '^': 3}.get(op, -1)`,
+  postfixToInfix: `def solve(exp):
+    stack = []
+
+    for c in exp:
+        if c.isalnum():
+            stack.append(c) @@operand
+        else:
+            op2 = stack.pop() @@combine
+            op1 = stack.pop() @@combine
+            stack.append("(" + op1 + c + op2 + ")") @@combine
+    return stack.pop()`,
+  postfixToPrefix: `def solve(exp):
+    stack = []
+
+    for c in exp:
+        if c.isalnum():
+            stack.append(c) @@operand
+        else:
+            op2 = stack.pop() @@combine
+            op1 = stack.pop() @@combine
+            stack.append(c + op1 + op2) @@combine
+    return stack.pop()`,
+  prefixToInfix: `def solve(exp):
+    stack = []
+
+    # Read from right to left
+    for c in reversed(exp):
+        if c.isalnum():
+            stack.append(c) @@operand
+        else:
+            op1 = stack.pop() @@combine
+            op2 = stack.pop() @@combine
+            stack.append("(" + op1 + c + op2 + ")") @@combine
+    return stack.pop()`,
+  prefixToPostfix: `def solve(exp):
+    stack = []
+
+    # Read from right to left
+    for c in reversed(exp):
+        if c.isalnum():
+            stack.append(c) @@operand
+        else:
+            op1 = stack.pop() @@combine
+            op2 = stack.pop() @@combine
+            stack.append(op1 + op2 + c) @@combine
+    return stack.pop()`,
+  evaluatePostfix: `def solve(exp):
+    stack = []
+
+    for c in exp:
+        if c.isdigit():
+            stack.append(int(c)) @@operand
+        else:
+            val2 = stack.pop() @@combine
+            val1 = stack.pop() @@combine
+            stack.append(OPS[c](val1, val2)) @@combine
+    return stack.pop()
+
+OPS = {
+    '+': lambda a, b: a + b,
+    '-': lambda a, b: a - b,
+    '*': lambda a, b: a * b,
+    '/': lambda a, b: a / b,
+}`,
+  evaluatePrefix: `def solve(exp):
+    stack = []
+
+    # Read from right to left
+    for c in reversed(exp):
+        if c.isdigit():
+            stack.append(int(c)) @@operand
+        else:
+            val1 = stack.pop() @@combine
+            val2 = stack.pop() @@combine
+            stack.append(OPS[c](val1, val2)) @@combine
+    return stack.pop()
+
+OPS = {
+    '+': lambda a, b: a + b,
+    '-': lambda a, b: a - b,
+    '*': lambda a, b: a * b,
+    '/': lambda a, b: a / b,
+}`,
+  evaluateInfix: `def solve(exp):
+    values = []
+    ops = []
+
+    for c in exp:
+        if c.isdigit():
+            values.append(int(c)) @@operand
+        elif c == '(':
+            ops.append(c) @@open
+        elif c == ')':
+            while ops[-1] != '(': @@close
+                apply(values, ops.pop()) @@close
+            ops.pop() @@close
+        else:
+            while ops and ops[-1] != '(' and precedence(c) <= precedence(ops[-1]): @@pop
+                apply(values, ops.pop()) @@pop
+            ops.append(c) @@pop @@push
+
+    while ops: @@drain
+        apply(values, ops.pop()) @@drain
+    return values.pop()
+
+def apply(values, op):
+    val2 = values.pop() @@close @@pop @@drain @@combine
+    val1 = values.pop() @@close @@pop @@drain @@combine
+    values.append(OPS[op](val1, val2))
+
+def precedence(op):
+    return {'+': 1, '-': 1, '*': 2, '/': 2}.get(op, -1)
+
+OPS = {
+    '+': lambda a, b: a + b,
+    '-': lambda a, b: a - b,
+    '*': lambda a, b: a * b,
+    '/': lambda a, b: a / b,
+}`
+};
@@ -1,22 +1,120 @@
 
 export type ExpressionType = 'infix' | 'postfix' | 'prefix';
 
+// How infix output is bracketed: every operation, or only where precedence requires
+export type ParenthesesMode = 'full' | 'minimal';
+
+export type OperationType =
+  | 'infixToPostfix'
+  | 'infixToPrefix'
+  | 'postfixToInfix'
+  | 'postfixToPrefix'
+  | 'prefixToInfix'
+  | 'prefixToPostfix'
+  | 'evaluatePostfix'
+  | 'evaluatePrefix'
+  | 'evaluateInfix';
+
+export interface OperatorDef {
+  symbol: string; // spelling in postfix/prefix, and in infix for binary operators
+  precedence: number;
+  associativity: 'L' | 'R';
+  arity: 1 | 2;
+  infixSymbol?: string; // unary only, when infix spells it differently ('-' for '~')
+  evaluate: (...args: number[]) => number;
+  formula?: string; // user-defined operators: arithmetic over a (and b)
+  logical?: boolean; // result is a truth value (1/0), shown as true/false in boolean mode
+}
+
+// Operator registry keyed by symbol; every algorithm reads one of these
+export type OperatorTable = Record<string, OperatorDef>;
+
+// Variable values for evaluation, e.g. { A: 3, B: 4 } or { P: true }
+export type Bindings = Record<string, number | boolean>;
+
+// Arithmetic uses the editable registry; boolean mode evaluates conditions to true/false
+export type ExpressionMode = 'arithmetic' | 'boolean';
+
+// Number system for arithmetic evaluation: JS floats, exact rationals over BigInt,
+// or Java ints as the Code tab would compute them
+export type NumberSemantics = 'float' | 'exact' | 'java';
+
+// Panels of the main view; 'truth' only exists in boolean mode
+export type ViewTab = 'visualizer' | 'tree' | 'table' | 'truth' | 'verify' | 'code';
+
+// Passes of infixToPrefix: reverse the input, scan it, reverse the scan's output
+export type PrefixStage = 'reverse-input' | 'scan' | 'reverse-output';
+
+// One operator leaving the stack, and the comparison that sent it
+export interface PopDecision {
+  operator: string;
+  reason: string;
+}
+
+// Operator steps of Shunting-Yard: what was popped and why popping stopped
+export interface StepExplanation {
+  popped: PopDecision[];
+  stopped: string;
+}
+
 export interface Step {
   token: string;
+  tokenIndex?: number; // index into the lexed input, absent for synthetic steps
   stack: string[];
   output: string;
   action: string;
+  emitted?: number[]; // token indexes of operators moved to the output during this step
+  stage?: PrefixStage; // set on every step of a multi-pass trace
+  explain?: StepExplanation;
 }
 
 export interface EvaluationStep {
   token: string;
+  tokenIndex?: number;
   stack: number[];
   action: string;
 }
 
+export type ExpressionErrorKind =
+  | 'empty-expression'
+  | 'unknown-character'
+  | 'unexpected-token'
+  | 'unbalanced-paren'
+  | 'operand-underflow'
+  | 'leftover-operands'
+  | 'unbound-identifier'
+  | 'unknown-function'
+  | 'arity-mismatch'
+  | 'division-by-zero'
+  | 'unsupported-operation';
+
+export interface ExpressionError {
+  kind: ExpressionErrorKind;
+  message: string;
+  tokenIndex: number | null; // offending token, null when there is none (empty input)
+}
+
+// Evaluation in a value domain other than float (truth values, exact rationals):
+// stack entries are printed by the domain ("true", "7/2")
+export interface DomainEvaluationStep {
+  token: string;
+  tokenIndex?: number;
+  stack: string[];
+  action: string;
+  emitted?: number[]; // the operator applied in this step
+}
+
+// Two-stack infix evaluation: `stack` holds operands, `operators` the pending operators
+export interface InfixEvaluationStep extends EvaluationStep {
+  operators: string[];
+  emitted?: number[]; // token indexes of operators applied during this step
+  explain?: StepExplanation;
+}
+
 export interface AlgorithmResult {
-  steps: Step[] | EvaluationStep[];
+  steps: Step[] | EvaluationStep[] | DomainEvaluationStep[];
   result: string | number;
+  error?: ExpressionError;
 }
 
 export interface HistoryRecord {
@@ -24,6 +122,60 @@ export interface HistoryRecord {
   timestamp: number;
   operation: string;
   input: string;
+  bindings?: Bindings; // evaluation runs only
+  mode?: ExpressionMode; // absent in records saved before boolean mode
+  semantics?: NumberSemantics;
   result: string | number;
   data: AlgorithmResult;
+  label?: string; // name given by the user
+  pinned?: boolean; // pinned records are never evicted
+}
+
+// Practice mode totals, stored next to the history
+export interface QuizScore {
+  attempted: number;
+  correct: number;
+  streak: number;
+  best: number; // longest streak
+}
+
+/**
+ * Expression tree. `tokenIndex` points back at the lexed input token that
+ * produced the node (the operator for unary/binary nodes, the name for calls).
+ */
+export interface LiteralNode {
+  kind: 'literal';
+  value: number;
+  raw: string;
+  tokenIndex?: number;
 }
+
+export interface IdentifierNode {
+  kind: 'identifier';
+  name: string;
+  tokenIndex?: number;
+}
+
+export interface UnaryNode {
+  kind: 'unary';
+  operator: string;
+  operand: ExprNode;
+  tokenIndex?: number;
+}
+
+export interface BinaryNode {
+  kind: 'binary';
+  operator: string;
+  left: ExprNode;
+  right: ExprNode;
+  tokenIndex?: number;
+}
+
+export interface CallNode {
+  kind: 'call';
+  callee: string;
+  args: ExprNode[];
+  tokenIndex?: number;
+}
+
+export type ExprNode = LiteralNode | IdentifierNode | UnaryNode | BinaryNode | CallNode;